@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BrainManager } from '../brain/BrainManager';
+import { BrainIndexChangeEvent } from '../brain/BrainIndex';
+
+// Artifacts worth a notification when they first appear
+const NOTABLE_ARTIFACTS = ['walkthrough.md', 'implementation_plan.md'];
+
+/**
+ * Watches index change events for new AI output:
+ * - a status bar item counting brains/artifacts updated in the last few minutes
+ * - rate-limited notifications for brand-new brains and new walkthroughs/plans
+ */
+export class ActivityMonitor implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private recentChanges = new Map<string, number>(); // Artifact path -> last change (ms)
+    private knownBrains = new Set<string>();
+    private brainsKnown = false; // Until the brains that already exist are listed, none counts as new
+    private lastNotificationAt = 0;
+    private suppressedCount = 0;
+    private refreshTimer: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private brainManager: BrainManager, private openFile: (filePath: string) => void) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+        this.statusBarItem.command = 'antigravity-brain.recentActivity';
+
+        // Remember which brains exist before we start, so only genuinely new ones are announced
+        this.loadKnownBrains();
+
+        brainManager.onDidChange(e => this.onIndexChange(e), null, this.disposables);
+
+        // Age out entries even when nothing else changes
+        this.refreshTimer = setInterval(() => this.updateStatusBar(), 30 * 1000);
+    }
+
+    dispose(): void {
+        clearInterval(this.refreshTimer);
+        this.statusBarItem.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private onIndexChange(e: BrainIndexChangeEvent): void {
+        if (e.reset) {
+            // E.g. a root was added: its brains are not new
+            this.loadKnownBrains();
+            return;
+        }
+
+        const now = Date.now();
+        const newBrains = new Map<string, string>(); // Brain folder -> first artifact seen
+        const newArtifacts: string[] = [];
+
+        for (const change of e.changes) {
+            if (change.type === 'deleted') {
+                this.recentChanges.delete(change.nodePath);
+                continue;
+            }
+            this.recentChanges.set(change.nodePath, now);
+
+            const brainPath = this.brainManager.getLocation(change.nodePath)?.brainPath;
+            if (brainPath && this.brainsKnown && !this.knownBrains.has(brainPath)) {
+                this.knownBrains.add(brainPath);
+                newBrains.set(brainPath, change.nodePath);
+            } else if (change.type === 'created' && change.path === change.nodePath
+                && NOTABLE_ARTIFACTS.includes(path.basename(change.path).toLowerCase())) {
+                newArtifacts.push(change.nodePath);
+            }
+        }
+
+        this.updateStatusBar();
+
+        for (const filePath of newBrains.values()) {
+            this.notify(`🧠 New brain: ${this.describeBrain(filePath)}`, filePath);
+        }
+        for (const filePath of newArtifacts) {
+            this.notify(`📄 New ${path.basename(filePath)} in ${this.describeBrain(filePath)}`, filePath);
+        }
+    }
+
+    private async loadKnownBrains(): Promise<void> {
+        this.brainsKnown = false;
+        try {
+            const brains = await this.brainManager.getBrains();
+            this.knownBrains = new Set(brains.map(b => b.path));
+            this.brainsKnown = true;
+        } catch (e) {
+            console.warn('Failed to list brains for activity notifications', e);
+        }
+    }
+
+    private updateStatusBar(): void {
+        const config = vscode.workspace.getConfiguration('antigravity');
+        const windowMinutes = config.get<number>('activity.windowMinutes', 5);
+        const cutoff = Date.now() - windowMinutes * 60 * 1000;
+
+        const brains = new Set<string>();
+        for (const [filePath, time] of this.recentChanges) {
+            if (time < cutoff) {
+                this.recentChanges.delete(filePath);
+                continue;
+            }
+            brains.add(this.brainManager.getLocation(filePath)?.brainPath || '');
+        }
+
+        const artifactCount = this.recentChanges.size;
+        if (artifactCount === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        this.statusBarItem.text = `$(pulse) ${brains.size} brains · ${artifactCount} artifacts`;
+        this.statusBarItem.tooltip = `Antigravity Brain: ${brains.size} brains / ${artifactCount} artifacts updated in the last ${windowMinutes} minutes`;
+        this.statusBarItem.show();
+    }
+
+    private notify(message: string, filePath: string): void {
+        const config = vscode.workspace.getConfiguration('antigravity');
+        if (!config.get<boolean>('notifications.enabled', true)) { return; }
+
+        // Rate limit: collapse anything inside the interval into the next notification
+        const minIntervalMs = config.get<number>('notifications.minIntervalSeconds', 30) * 1000;
+        const now = Date.now();
+        if (now - this.lastNotificationAt < minIntervalMs) {
+            this.suppressedCount++;
+            return;
+        }
+        this.lastNotificationAt = now;
+
+        const suffix = this.suppressedCount > 0 ? ` (+${this.suppressedCount} more updates)` : '';
+        this.suppressedCount = 0;
+
+        vscode.window.showInformationMessage(message + suffix, 'Open').then(action => {
+            if (action === 'Open') {
+                this.openFile(filePath);
+            }
+        });
+    }
+
+    private describeBrain(filePath: string): string {
+        const location = this.brainManager.getLocation(filePath);
+        if (!location) { return 'brain root'; }
+        const brainLabel = location.brainId || 'brain root';
+        return this.brainManager.sources.length > 1 ? `${brainLabel} (${location.source.label})` : brainLabel;
+    }
+}
@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BrainManager } from '../brain/BrainManager';
+import { BrainIndexChangeEvent } from '../brain/BrainIndex';
+import { Brain } from '../brain/types';
+
+const READ_STATE_KEY = 'antigravity.readState';
+
+interface ReadState {
+    baseline: number;                       // Anything last modified before this counts as read
+    seen: { [filePath: string]: number };   // Artifact -> when it was last viewed (ms)
+}
+
+/**
+ * Remembers when each artifact was last viewed and badges the ones the assistant changed since,
+ * and the brains holding them, in the Brain Explorer and the editor tabs.
+ *
+ * Viewing an artifact in an editor tab marks it as read. The very first run counts
+ * everything that already exists as read.
+ */
+export class UnreadTracker implements vscode.FileDecorationProvider, vscode.Disposable {
+    private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[] | undefined> = this._onDidChangeFileDecorations.event;
+
+    // Fires when any artifact becomes read or unread
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private state: ReadState;
+    private modified = new Map<string, number>(); // Artifact -> mtime (ms)
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private brainManager: BrainManager, private memento: vscode.Memento) {
+        const saved = memento.get<ReadState>(READ_STATE_KEY);
+        this.state = saved || { baseline: Date.now(), seen: {} };
+        if (!saved) {
+            this.save();
+        }
+
+        brainManager.onDidChange(e => this.onIndexChange(e).catch(err => console.warn('Failed to update unread artifacts', err)), null, this.disposables);
+        vscode.window.tabGroups.onDidChangeTabs(() => this.markOpenTabsSeen(), null, this.disposables);
+        vscode.window.tabGroups.onDidChangeTabGroups(() => this.markOpenTabsSeen(), null, this.disposables);
+        this.loadAll().catch(e => console.warn('Failed to load unread artifacts', e));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeFileDecorations.dispose();
+        this._onDidChange.dispose();
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== 'file') {
+            return undefined;
+        }
+        const filePath = uri.fsPath;
+        if (this.modified.has(filePath)) {
+            return this.isUnread(filePath)
+                ? new vscode.FileDecoration('●', 'Changed since you last viewed it', new vscode.ThemeColor('charts.blue'))
+                : undefined;
+        }
+
+        const brain = this.brainManager.getBrain(filePath);
+        const count = brain ? this.getUnreadArtifacts(brain).length : 0;
+        if (count === 0) {
+            return undefined;
+        }
+        return new vscode.FileDecoration(count > 9 ? '9+' : `${count}`,
+            `${count} artifacts changed since you last viewed them`, new vscode.ThemeColor('charts.blue'));
+    }
+
+    public isUnread(filePath: string): boolean {
+        const modified = this.modified.get(filePath);
+        if (modified === undefined) {
+            return false;
+        }
+        const seen = this.state.seen[filePath];
+        return modified > (seen !== undefined ? seen : this.state.baseline);
+    }
+
+    public getUnreadArtifacts(brain: Brain): string[] {
+        return brain.artifacts.map(a => a.path).filter(p => this.isUnread(p));
+    }
+
+    public isBrainUnread(brainPath: string): boolean {
+        const brain = this.brainManager.getBrain(brainPath);
+        return !!brain && brain.artifacts.some(a => this.isUnread(a.path));
+    }
+
+    /**
+     * Marks the artifacts of the given brains as read.
+     */
+    public markRead(brains: Brain[]): void {
+        const now = Date.now();
+        const changed: string[] = [];
+        for (const brain of brains) {
+            for (const artifact of brain.artifacts) {
+                if (this.isUnread(artifact.path)) {
+                    this.state.seen[artifact.path] = Math.max(now, this.modified.get(artifact.path) || 0);
+                    changed.push(artifact.path);
+                }
+            }
+        }
+        this.commit(changed);
+    }
+
+    /**
+     * Everything that exists now counts as read; only later changes show up.
+     */
+    public markAllRead(): void {
+        const now = Date.now();
+        let latest = now;
+        this.modified.forEach(time => { latest = Math.max(latest, time); });
+        this.state = { baseline: latest, seen: {} };
+        this.save();
+        this._onDidChangeFileDecorations.fire(undefined);
+        this._onDidChange.fire();
+    }
+
+    private async loadAll(): Promise<void> {
+        const brains = await this.brainManager.getBrains();
+        this.modified.clear();
+        for (const brain of brains) {
+            for (const artifact of brain.artifacts) {
+                await this.stat(artifact.path);
+            }
+        }
+
+        // Forget artifacts that no longer exist
+        Object.keys(this.state.seen).forEach(filePath => {
+            if (!this.modified.has(filePath)) {
+                delete this.state.seen[filePath];
+            }
+        });
+        this.save();
+        this.markOpenTabsSeen();
+        this._onDidChangeFileDecorations.fire(undefined);
+        this._onDidChange.fire();
+    }
+
+    private async onIndexChange(e: BrainIndexChangeEvent): Promise<void> {
+        if (e.reset) {
+            await this.loadAll();
+            return;
+        }
+
+        const changed: string[] = [];
+        for (const change of e.changes) {
+            if (change.type === 'deleted') {
+                this.modified.delete(change.nodePath);
+                delete this.state.seen[change.nodePath];
+            } else {
+                await this.stat(change.nodePath);
+            }
+            changed.push(change.nodePath);
+        }
+        if (changed.length === 0) {
+            return;
+        }
+
+        // Changes to a file the user is looking at are seen right away
+        const open = new Set(this.getOpenTabPaths());
+        changed.filter(p => open.has(p) && this.isUnread(p))
+            .forEach(p => { this.state.seen[p] = Math.max(Date.now(), this.modified.get(p) || 0); });
+        this.commit(changed);
+    }
+
+    private markOpenTabsSeen(): void {
+        const changed = this.getOpenTabPaths().filter(p => this.isUnread(p));
+        const now = Date.now();
+        changed.forEach(p => { this.state.seen[p] = Math.max(now, this.modified.get(p) || 0); });
+        this.commit(changed);
+    }
+
+    /**
+     * Files shown in the active tab of each editor group.
+     */
+    private getOpenTabPaths(): string[] {
+        const paths: string[] = [];
+        for (const group of vscode.window.tabGroups.all) {
+            const input = group.activeTab?.input;
+            if (input instanceof vscode.TabInputText || input instanceof vscode.TabInputCustom) {
+                paths.push(input.uri.fsPath);
+            } else if (input instanceof vscode.TabInputTextDiff) {
+                paths.push(input.modified.fsPath);
+            }
+        }
+        return paths;
+    }
+
+    private async stat(filePath: string): Promise<void> {
+        try {
+            this.modified.set(filePath, (await fs.promises.stat(filePath)).mtimeMs);
+        } catch (_) {
+            this.modified.delete(filePath);
+        }
+    }
+
+    /**
+     * Saves the state and refreshes the badges of the changed artifacts and their brains.
+     */
+    private commit(changedPaths: string[]): void {
+        if (changedPaths.length === 0) {
+            return;
+        }
+        this.save();
+
+        const uris = new Map<string, vscode.Uri>();
+        for (const filePath of changedPaths) {
+            uris.set(filePath, vscode.Uri.file(filePath));
+            const brainPath = this.brainManager.getLocation(filePath)?.brainPath;
+            if (brainPath) {
+                uris.set(brainPath, vscode.Uri.file(brainPath));
+            }
+        }
+        this._onDidChangeFileDecorations.fire(Array.from(uris.values()));
+        this._onDidChange.fire();
+    }
+
+    private save(): void {
+        this.memento.update(READ_STATE_KEY, this.state);
+    }
+}
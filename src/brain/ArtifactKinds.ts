@@ -0,0 +1,30 @@
+import * as path from 'path';
+
+/**
+ * Broad file categories inside a brain, used to pick icons, previews and open behavior.
+ */
+export type ArtifactKind = 'markdown' | 'image' | 'json' | 'code' | 'text' | 'binary';
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.bmp', '.ico'];
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.py', '.go', '.rs', '.java', '.c', '.cpp', '.h', '.cs', '.rb', '.php', '.sh', '.css', '.html', '.sql', '.yaml', '.yml', '.toml', '.xml'];
+const TEXT_EXTENSIONS = ['.txt', '.log', '.csv'];
+
+export function getArtifactKind(filePath: string): ArtifactKind {
+    // History versions keep the kind of the artifact they belong to (task.md.resolved.3 is markdown)
+    const baseName = path.basename(filePath).split('.resolved')[0];
+    const ext = path.extname(baseName).toLowerCase();
+
+    if (ext === '.md' || ext === '.markdown') { return 'markdown'; }
+    if (IMAGE_EXTENSIONS.includes(ext)) { return 'image'; }
+    if (ext === '.json' || ext === '.jsonc') { return 'json'; }
+    if (CODE_EXTENSIONS.includes(ext)) { return 'code'; }
+    if (TEXT_EXTENSIONS.includes(ext)) { return 'text'; }
+    return 'binary';
+}
+
+/**
+ * Whether the file can be read as text (for previews, links and search).
+ */
+export function isTextArtifact(filePath: string): boolean {
+    return getArtifactKind(filePath) !== 'image' && getArtifactKind(filePath) !== 'binary';
+}
@@ -0,0 +1,102 @@
+import { ArtifactType, BrainNodeMetadata } from './types';
+
+export const ARTIFACT_TYPE_LABELS: Record<ArtifactType, string> = {
+    task: 'Task',
+    implementation_plan: 'Implementation Plan',
+    walkthrough: 'Walkthrough',
+    other: 'Other'
+};
+
+const KNOWN_KEYS = ['artifactType', 'summary', 'version', 'createdAt', 'updatedAt'];
+
+/**
+ * Validates the parsed contents of a `<file>.metadata.json` sidecar.
+ *
+ * Known fields are coerced to their typed form; anything that doesn't fit is dropped
+ * and reported in `warnings`. Unknown keys are kept verbatim in `extra`.
+ */
+export function parseArtifactMetadata(raw: unknown): BrainNodeMetadata {
+    const warnings: string[] = [];
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { warnings: ['expected a JSON object'] };
+    }
+
+    const data = raw as Record<string, unknown>;
+    const metadata: BrainNodeMetadata = {};
+
+    // artifactType: "ARTIFACT_TYPE_IMPLEMENTATION_PLAN" -> 'implementation_plan'
+    if (data.artifactType !== undefined) {
+        if (typeof data.artifactType === 'string') {
+            const normalized = data.artifactType.replace(/^ARTIFACT_TYPE_/i, '').toLowerCase();
+            if (Object.prototype.hasOwnProperty.call(ARTIFACT_TYPE_LABELS, normalized)) {
+                metadata.artifactType = normalized as ArtifactType;
+            } else {
+                metadata.artifactType = 'other';
+                warnings.push(`unknown artifactType "${data.artifactType}"`);
+            }
+        } else {
+            warnings.push('artifactType must be a string');
+        }
+    }
+
+    if (data.summary !== undefined) {
+        if (typeof data.summary === 'string') {
+            metadata.summary = data.summary;
+        } else {
+            warnings.push('summary must be a string');
+        }
+    }
+
+    // version: accept 3 or "3"
+    if (data.version !== undefined) {
+        const version = typeof data.version === 'string' ? Number(data.version) : data.version;
+        if (typeof version === 'number' && Number.isInteger(version) && version >= 0) {
+            metadata.version = version;
+        } else {
+            warnings.push(`version must be a non-negative integer, got ${JSON.stringify(data.version)}`);
+        }
+    }
+
+    for (const key of ['createdAt', 'updatedAt'] as const) {
+        if (data[key] === undefined) {
+            continue;
+        }
+        const timestamp = parseTimestamp(data[key]);
+        if (timestamp) {
+            metadata[key] = timestamp;
+        } else {
+            warnings.push(`${key} is not a valid date: ${JSON.stringify(data[key])}`);
+        }
+    }
+
+    const extra: Record<string, unknown> = {};
+    for (const key of Object.keys(data)) {
+        if (!KNOWN_KEYS.includes(key)) {
+            extra[key] = data[key];
+        }
+    }
+    if (Object.keys(extra).length > 0) {
+        metadata.extra = extra;
+    }
+    if (warnings.length > 0) {
+        metadata.warnings = warnings;
+    }
+
+    return metadata;
+}
+
+/**
+ * ISO strings pass through; epoch numbers (seconds or milliseconds) are converted.
+ */
+function parseTimestamp(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+        return isNaN(new Date(value).getTime()) ? undefined : value;
+    }
+    if (typeof value === 'number' && isFinite(value)) {
+        // Anything below ~2001 in ms is assumed to be seconds
+        const ms = value < 1e12 ? value * 1000 : value;
+        return new Date(ms).toISOString();
+    }
+    return undefined;
+}
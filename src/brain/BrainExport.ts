@@ -0,0 +1,54 @@
+import * as path from 'path';
+import { Brain } from './types';
+import { BRAIN_STATUS_LABELS } from './BrainStatus';
+import { getArtifactKind, isTextArtifact } from './ArtifactKinds';
+
+/**
+ * A file name for a brain's export: its title made file-system safe, plus the start of its ID
+ * so brains with the same title don't overwrite each other.
+ */
+export function getExportFileName(brain: Brain): string {
+    const slug = brain.title.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+    const id = brain.id.replace(/\.[^.]*$/, '').slice(0, 8);
+    return `${slug || 'brain'}-${id}.md`;
+}
+
+/**
+ * One brain as a single Markdown document: its details, then every artifact —
+ * Markdown inline, other text fenced, images and binaries listed by name.
+ *
+ * @param readFile Contents of an artifact, or undefined when it cannot be read.
+ */
+export async function renderBrainMarkdown(brain: Brain, readFile: (filePath: string) => Promise<string | undefined>): Promise<string> {
+    const details = [`- **ID:** ${brain.id}`, `- **Status:** ${BRAIN_STATUS_LABELS[brain.status]}`];
+    if (brain.tags.length > 0) {
+        details.push(`- **Tags:** ${brain.tags.join(', ')}`);
+    }
+    if (brain.createdAt) {
+        details.push(`- **Created:** ${new Date(brain.createdAt).toISOString()}`);
+    }
+    if (brain.updatedAt) {
+        details.push(`- **Updated:** ${new Date(brain.updatedAt).toISOString()}`);
+    }
+    const sections = [`# ${brain.title}`, details.join('\n')];
+
+    const artifacts = brain.artifacts.slice().sort((a, b) => a.path.localeCompare(b.path));
+    for (const artifact of artifacts) {
+        // Relative to the brain folder; a single-note brain is just its own file name
+        const name = path.relative(brain.path, artifact.path) || path.basename(artifact.path);
+        if (!isTextArtifact(artifact.path)) {
+            sections.push(`## ${name}\n\n*(${getArtifactKind(artifact.path)} file, not included)*`);
+            continue;
+        }
+        const content = await readFile(artifact.path);
+        if (content === undefined) {
+            sections.push(`## ${name}\n\n*(could not be read)*`);
+        } else if (getArtifactKind(artifact.path) === 'markdown') {
+            sections.push(`## ${name}\n\n${content.trim()}`);
+        } else {
+            const fence = content.includes('```') ? '````' : '```';
+            sections.push(`## ${name}\n\n${fence}${path.extname(artifact.path).slice(1)}\n${content.trimEnd()}\n${fence}`);
+        }
+    }
+    return sections.join('\n\n') + '\n';
+}
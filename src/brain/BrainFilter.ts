@@ -0,0 +1,138 @@
+import { Brain, BrainStatus } from './types';
+import { BRAIN_STATUS_LABELS } from './BrainStatus';
+import { deleteTag, hasTag, renameTag } from './Tags';
+
+/**
+ * Criteria for narrowing down the brain list. Every criterion that is set must match.
+ * Tag criteria are hierarchical (`client` matches `client/acme`).
+ */
+export interface BrainFilter {
+    allTags?: string[];      // AND — every one of these tags
+    anyTags?: string[];      // OR — at least one of these tags
+    noneTags?: string[];     // NOT — none of these tags
+    pinned?: boolean;
+    statuses?: BrainStatus[];
+    updatedAfter?: string;   // YYYY-MM-DD, or relative like `7d` (days ago)
+    updatedBefore?: string;
+    unread?: boolean;        // Only brains changed since they were last viewed
+}
+
+/**
+ * A named filter ("smart folder"), stored in `antigravity.savedFilters`.
+ */
+export interface SavedFilter {
+    name: string;
+    filter: BrainFilter;
+}
+
+export type FilterableBrain = Pick<Brain, 'tags' | 'pinned' | 'status' | 'updatedAt'> & { unread?: boolean };
+
+export function isEmptyFilter(filter: BrainFilter | undefined): boolean {
+    if (!filter) {
+        return true;
+    }
+    return !filter.allTags?.length && !filter.anyTags?.length && !filter.noneTags?.length
+        && filter.pinned === undefined && !filter.statuses?.length
+        && !filter.updatedAfter && !filter.updatedBefore && !filter.unread;
+}
+
+export function matchesFilter(brain: FilterableBrain, filter: BrainFilter): boolean {
+    if (filter.allTags && !filter.allTags.every(t => hasTag(brain.tags, t))) {
+        return false;
+    }
+    if (filter.anyTags && filter.anyTags.length > 0 && !filter.anyTags.some(t => hasTag(brain.tags, t))) {
+        return false;
+    }
+    if (filter.noneTags && filter.noneTags.some(t => hasTag(brain.tags, t))) {
+        return false;
+    }
+    if (filter.pinned !== undefined && brain.pinned !== filter.pinned) {
+        return false;
+    }
+    if (filter.statuses && filter.statuses.length > 0 && !filter.statuses.includes(brain.status)) {
+        return false;
+    }
+
+    if (filter.unread && !brain.unread) {
+        return false;
+    }
+
+    const after = parseDateBound(filter.updatedAfter);
+    const before = parseDateBound(filter.updatedBefore);
+    if (after !== undefined && (brain.updatedAt || 0) < after) {
+        return false;
+    }
+    if (before !== undefined && (brain.updatedAt || 0) >= before) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Whether archived brains belong in the result — only when the filter asks for them.
+ */
+export function includesArchived(filter: BrainFilter | undefined): boolean {
+    return !!filter?.statuses?.includes('archived');
+}
+
+/**
+ * One-line summary, e.g. `#a AND #b · (#x OR #y) · NOT #z · pinned · Done · after 2026-01-01`.
+ */
+export function describeFilter(filter: BrainFilter): string {
+    const parts: string[] = [];
+    if (filter.allTags?.length) {
+        parts.push(filter.allTags.map(t => `#${t}`).join(' AND '));
+    }
+    if (filter.anyTags?.length) {
+        const any = filter.anyTags.map(t => `#${t}`).join(' OR ');
+        parts.push(filter.anyTags.length > 1 ? `(${any})` : any);
+    }
+    if (filter.noneTags?.length) {
+        parts.push(filter.noneTags.map(t => `NOT #${t}`).join(' '));
+    }
+    if (filter.pinned !== undefined) {
+        parts.push(filter.pinned ? 'pinned' : 'not pinned');
+    }
+    if (filter.statuses?.length) {
+        parts.push(filter.statuses.map(s => BRAIN_STATUS_LABELS[s]).join(' | '));
+    }
+    if (filter.updatedAfter) {
+        parts.push(`after ${filter.updatedAfter}`);
+    }
+    if (filter.updatedBefore) {
+        parts.push(`before ${filter.updatedBefore}`);
+    }
+    if (filter.unread) {
+        parts.push('unread');
+    }
+    return parts.join(' · ');
+}
+
+/**
+ * Follows a tag rename (or deletion, when `to` is undefined) in every tag criterion.
+ */
+export function renameTagInFilter(filter: BrainFilter, from: string, to: string | undefined): BrainFilter {
+    const update = (tags: string[] | undefined) => {
+        if (!tags) {
+            return undefined;
+        }
+        const next = to !== undefined ? renameTag(tags, from, to) : deleteTag(tags, from);
+        return next.length > 0 ? next : undefined;
+    };
+    return { ...filter, allTags: update(filter.allTags), anyTags: update(filter.anyTags), noneTags: update(filter.noneTags) };
+}
+
+/**
+ * `2026-01-31` -> local midnight of that day; `7d` -> 7 days ago. Undefined when unset or invalid.
+ */
+export function parseDateBound(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const relative = value.trim().match(/^(\d+)d$/i);
+    if (relative) {
+        return Date.now() - parseInt(relative[1], 10) * 24 * 60 * 60 * 1000;
+    }
+    const time = new Date(`${value.trim()}T00:00:00`).getTime();
+    return isNaN(time) ? undefined : time;
+}
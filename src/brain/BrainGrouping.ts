@@ -0,0 +1,56 @@
+/**
+ * How the Brain Explorer arranges brains below the summary.
+ */
+export type BrainGrouping = 'none' | 'date' | 'tag' | 'status' | 'source' | 'project';
+
+export const BRAIN_GROUPING_LABELS: Record<BrainGrouping, string> = {
+    none: 'No Grouping',
+    date: 'Last Updated',
+    tag: 'Tag',
+    status: 'Status',
+    source: 'Source Root',
+    project: 'Project'
+};
+
+export const BRAIN_GROUPING_ICONS: Record<BrainGrouping, string> = {
+    none: 'list-flat',
+    date: 'calendar',
+    tag: 'tag',
+    status: 'circle-large-outline',
+    source: 'folder-library',
+    project: 'repo'
+};
+
+export type DateBucket = 'today' | 'yesterday' | 'week' | 'month' | 'older';
+
+// In display order
+export const DATE_BUCKET_LABELS: Record<DateBucket, string> = {
+    today: 'Today',
+    yesterday: 'Yesterday',
+    week: 'This Week',
+    month: 'This Month',
+    older: 'Older'
+};
+
+export function isBrainGrouping(value: unknown): value is BrainGrouping {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BRAIN_GROUPING_LABELS, value);
+}
+
+/**
+ * Calendar bucket of a timestamp, in local time. Weeks start on Monday.
+ */
+export function getDateBucket(timestamp: number | undefined, now: Date = new Date()): DateBucket {
+    if (!timestamp) {
+        return 'older';
+    }
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1).getTime();
+    const weekStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (now.getDay() + 6) % 7).getTime();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+    if (timestamp >= today) { return 'today'; }
+    if (timestamp >= yesterday) { return 'yesterday'; }
+    if (timestamp >= weekStart) { return 'week'; }
+    if (timestamp >= monthStart) { return 'month'; }
+    return 'older';
+}
@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileSystemReader } from './FileSystemReader';
+import { LinkTargets, MarkdownParser } from './MarkdownParser';
+import { ArtifactSummary, ScanCache } from './ScanCache';
+import { BrainGraph, BrainLink, BrainNode } from './types';
+
+export type BrainChangeType = 'created' | 'changed' | 'deleted';
+
+export interface BrainIndexChange {
+    type: BrainChangeType;
+    path: string;       // The file that changed on disk (may be a .resolved.N or .metadata.json)
+    nodePath: string;   // The artifact node it belongs to
+}
+
+export interface BrainIndexChangeEvent {
+    changes: BrainIndexChange[];
+    reset: boolean;     // true after a full rescan — consumers should drop everything they cached
+}
+
+// Coalesce bursts of file events (the assistant usually writes an artifact, its
+// .resolved copy and its sidecar within a few milliseconds of each other)
+const FLUSH_DELAY_MS = 200;
+
+/**
+ * Long-lived in-memory index of every artifact under the configured brain roots.
+ *
+ * Built once by a full scan, then kept up to date from file-system events so that
+ * the tree, search and graph never have to rescan the whole directory.
+ */
+export class BrainIndex implements vscode.Disposable {
+    private nodes = new Map<string, BrainNode>();
+    private summaries = new Map<string, ArtifactSummary>();
+    private links: BrainLink[] | undefined; // Resolved lazily, invalidated on any change
+
+    private building: Promise<void> | undefined;
+    private pending = new Map<string, BrainChangeType>();
+    private flushTimer: NodeJS.Timeout | undefined;
+    private flushing: Promise<void> = Promise.resolve();
+
+    private _onDidChange = new vscode.EventEmitter<BrainIndexChangeEvent>();
+    readonly onDidChange: vscode.Event<BrainIndexChangeEvent> = this._onDidChange.event;
+
+    constructor(private readers: FileSystemReader[], private parser: MarkdownParser, private cache: ScanCache) {}
+
+    /**
+     * Resolves once the initial scan has completed. Safe to call repeatedly.
+     */
+    public ready(): Promise<void> {
+        if (!this.building) {
+            this.building = this.startBuild();
+        }
+        return this.building;
+    }
+
+    /**
+     * Discards the index and rescans everything from disk.
+     * Pass `readers` to switch to a different set of brain roots.
+     */
+    public async rebuild(readers?: FileSystemReader[]): Promise<void> {
+        if (readers) {
+            this.readers = readers;
+            this.pending.clear();
+        }
+        this.building = this.startBuild();
+        await this.building;
+        this._onDidChange.fire({ changes: [], reset: true });
+    }
+
+    public getNodes(): BrainNode[] {
+        return Array.from(this.nodes.values());
+    }
+
+    public getNode(nodePath: string): BrainNode | undefined {
+        return this.nodes.get(nodePath);
+    }
+
+    /**
+     * Parsed content of an artifact (title, frontmatter, preview...); undefined for binaries.
+     */
+    public getSummary(nodePath: string): ArtifactSummary | undefined {
+        return this.summaries.get(nodePath);
+    }
+
+    public getGraph(): BrainGraph {
+        const nodes = this.getNodes();
+        if (!this.links) {
+            const linkTargets = new Map<string, LinkTargets>();
+            this.summaries.forEach((summary, nodePath) => linkTargets.set(nodePath, summary.links));
+            this.links = this.parser.resolveLinks(nodes, linkTargets);
+        }
+        return { nodes, links: this.links };
+    }
+
+    /**
+     * Queues a file-system event. Events are batched and applied after a short delay.
+     */
+    public notify(filePath: string, type: BrainChangeType): void {
+        const previous = this.pending.get(filePath);
+        // created + changed is still a creation; anything + deleted is a deletion
+        if (!(previous === 'created' && type === 'changed')) {
+            this.pending.set(filePath, type);
+        }
+
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+        }
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined;
+            this.queueFlush();
+        }, FLUSH_DELAY_MS);
+    }
+
+    /**
+     * Re-reads one file right away, for changes the extension made itself and
+     * does not want to wait for the file watcher on.
+     */
+    public async reload(filePath: string): Promise<void> {
+        this.pending.set(filePath, 'changed');
+        await this.queueFlush();
+    }
+
+    public dispose(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+        }
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Applies the pending changes after those already queued. A failed batch is logged and
+     * does not block the ones after it.
+     */
+    private queueFlush(): Promise<void> {
+        this.flushing = this.flushing.then(() => this.flush()).catch(e => console.warn('Failed to update brain index', e));
+        return this.flushing;
+    }
+
+    // A failed scan is not kept, so the next ready() or rebuild() scans again
+    private startBuild(): Promise<void> {
+        const building: Promise<void> = this.buildAll().catch(e => {
+            if (this.building === building) {
+                this.building = undefined;
+            }
+            throw e;
+        });
+        return building;
+    }
+
+    private async buildAll(): Promise<void> {
+        console.log('Scanning brain...');
+        await this.cache.load();
+        const nodes: BrainNode[] = [];
+        for (const reader of this.readers) {
+            nodes.push(...await reader.scan());
+        }
+        console.log(`Found ${nodes.length} nodes in ${this.readers.length} roots.`);
+
+        // Only files changed since the last session are actually read
+        const summaries = new Map<string, ArtifactSummary>();
+        for (const node of nodes) {
+            const summary = await this.cache.getSummary(node.path);
+            if (summary) {
+                summaries.set(node.path, summary);
+            }
+        }
+        this.cache.retain(new Set(nodes.map(n => n.path)));
+
+        this.nodes = new Map(nodes.map(n => [n.path, n]));
+        this.summaries = summaries;
+        this.links = undefined;
+    }
+
+    private async flush(): Promise<void> {
+        await this.ready();
+
+        const batch = Array.from(this.pending.entries());
+        this.pending.clear();
+
+        const changes: BrainIndexChange[] = [];
+        for (const [filePath, type] of batch) {
+            const reader = this.readers.find(r => r.contains(filePath));
+            if (!reader) {
+                continue;
+            }
+            if (type !== 'deleted' && await this.isDirectory(filePath)) {
+                // A folder moved or copied in — not every platform reports its files individually
+                if (type === 'created') {
+                    const nodes = await reader.scan(filePath);
+                    for (const node of nodes) {
+                        await this.reloadNode(reader, node.path);
+                        changes.push({ type, path: node.path, nodePath: node.path });
+                    }
+                }
+                continue;
+            }
+
+            if (reader.isTracked(filePath)) {
+                const nodePath = reader.classify(filePath).basePath;
+                await this.reloadNode(reader, nodePath);
+                changes.push({ type, path: filePath, nodePath });
+            }
+
+            if (type === 'deleted') {
+                // Possibly a whole folder — drop every node underneath it
+                const prefix = filePath + path.sep;
+                for (const nodePath of Array.from(this.nodes.keys())) {
+                    if (nodePath.startsWith(prefix)) {
+                        this.removeNode(nodePath);
+                        changes.push({ type, path: nodePath, nodePath });
+                    }
+                }
+            }
+        }
+
+        if (changes.length > 0) {
+            this.links = undefined;
+            this._onDidChange.fire({ changes, reset: false });
+        }
+    }
+
+    private async reloadNode(reader: FileSystemReader, nodePath: string): Promise<void> {
+        const node = await reader.readNode(nodePath);
+        if (!node) {
+            this.removeNode(nodePath);
+            return;
+        }
+
+        this.nodes.set(nodePath, node);
+        const summary = await this.cache.getSummary(nodePath);
+        if (summary) {
+            this.summaries.set(nodePath, summary);
+        } else {
+            this.summaries.delete(nodePath);
+        }
+    }
+
+    private removeNode(nodePath: string): void {
+        this.nodes.delete(nodePath);
+        this.summaries.delete(nodePath);
+        this.cache.delete(nodePath);
+    }
+
+    private async isDirectory(filePath: string): Promise<boolean> {
+        try {
+            return (await fs.promises.stat(filePath)).isDirectory();
+        } catch (_) {
+            return false;
+        }
+    }
+}
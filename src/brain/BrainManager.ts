@@ -1,32 +1,399 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { FileSystemReader } from './FileSystemReader';
 import { MarkdownParser } from './MarkdownParser';
-import { BrainGraph } from './types';
+import { BrainIndex, BrainIndexChangeEvent } from './BrainIndex';
+import { ArtifactSummary, ScanCache } from './ScanCache';
+import { isBrainStatus } from './BrainStatus';
+import { BrainSimilarity, BrainTerms } from './BrainSimilarity';
+import { ProjectDetector } from './BrainProjects';
+import { ChecklistStats, sumChecklists } from './Checklist';
+import { AnnotatedBrain, AnnotationStore, BrainAnnotations, FrontmatterAnnotationStore } from './annotations';
+import { Brain, BrainGraph, BrainNode, BrainSource } from './types';
 
-export class BrainManager {
-    private reader: FileSystemReader;
+/**
+ * Where a file sits relative to the configured roots.
+ */
+export interface BrainLocation {
+    source: BrainSource;
+    brainId?: string;     // Brain ID (the UUID folder for Antigravity); undefined for loose files in the root
+    brainPath?: string;   // Absolute path of the brain (folder, or the note itself for single-note layouts)
+}
+
+type BrainDetails = Pick<Brain, 'title' | 'createdAt' | 'tags' | 'pinned' | 'status' | 'project'>;
+
+export class BrainManager implements vscode.Disposable {
+    private readers: FileSystemReader[];
     private parser: MarkdownParser;
+    private index: BrainIndex;
+    private cache: ScanCache;
+    private annotations: AnnotationStore;
+    private watchers: vscode.Disposable[] = [];
+    private watching = false;
+
+    // Title/annotation details per brain path; artifacts are regrouped from the index on every read
+    private brainDetails = new Map<string, BrainDetails>();
+    private brains: Map<string, Brain> | undefined;
+    private similarity: BrainSimilarity | undefined; // Built on first use, dropped when content changes
+    private projects = new ProjectDetector(() => (vscode.workspace.workspaceFolders || []).map(f => ({ name: f.name, path: f.uri.fsPath })));
+    private indexSubscription: vscode.Disposable;
 
-    constructor(rootPath: string) {
-        this.reader = new FileSystemReader(rootPath);
+    private _onDidChange = new vscode.EventEmitter<BrainIndexChangeEvent>();
+
+    /**
+     * @param cachePath Where to persist parsed artifacts between sessions; omit to keep them in memory only.
+     */
+    constructor(sources: BrainSource[], cachePath?: string) {
+        this.readers = sources.map(s => new FileSystemReader(s));
         this.parser = new MarkdownParser();
+        this.cache = new ScanCache(this.parser, cachePath);
+        this.index = new BrainIndex(this.readers, this.parser, this.cache);
+        this.annotations = new FrontmatterAnnotationStore(filePath => this.index.getSummary(filePath)?.frontmatter);
+
+        // Drop stale brains before consumers hear about the change and re-render
+        this.indexSubscription = this.index.onDidChange(e => {
+            this.brains = undefined;
+            this.similarity = undefined;
+            if (e.reset) {
+                this.brainDetails.clear();
+            } else {
+                e.changes.forEach(c => {
+                    const brainPath = this.getLocation(c.nodePath)?.brainPath;
+                    if (brainPath) { this.brainDetails.delete(brainPath); }
+                });
+            }
+            this._onDidChange.fire(e);
+        });
+    }
+
+    public get sources(): BrainSource[] {
+        return this.readers.map(r => r.source);
     }
 
-    public get rootPath(): string {
-        return this.reader.rootPath;
+    public getSource(id: string | undefined): BrainSource | undefined {
+        return this.sources.find(s => s.id === id);
+    }
+
+    /**
+     * Fires whenever the index changes (incremental update or full rescan) or annotations change.
+     */
+    public get onDidChange(): vscode.Event<BrainIndexChangeEvent> {
+        return this._onDidChange.event;
     }
 
     /**
-     * Builds the full brain graph by scanning files and parsing links.
+     * Where pins and tags are kept (task.md frontmatter until `setAnnotationStore` is called).
+     */
+    public get annotationStore(): AnnotationStore {
+        return this.annotations;
+    }
+
+    public setAnnotationStore(store: AnnotationStore): void {
+        this.annotations = store;
+        this.invalidateAnnotations();
+    }
+
+    /**
+     * Resolves once the initial scan has completed.
+     */
+    public ready(): Promise<void> {
+        return this.index.ready();
+    }
+
+    /**
+     * Returns the current brain graph from the index.
+     * The first call performs the full scan; later calls are served from memory.
      */
     public async buildGraph(): Promise<BrainGraph> {
-        console.log('Scanning brain...');
-        const nodes = await this.reader.scan();
-        console.log(`Found ${nodes.length} nodes.`);
+        await this.index.ready();
+        return this.index.getGraph();
+    }
+
+    /**
+     * Forces a full rescan of every brain root.
+     */
+    public async refresh(): Promise<void> {
+        this.annotations.reset();
+        this.projects.clear();
+        await this.index.rebuild();
+    }
+
+    /**
+     * Switches to a new set of brain roots (e.g. after a settings change) and rescans.
+     */
+    public async setSources(sources: BrainSource[]): Promise<void> {
+        this.readers = sources.map(s => new FileSystemReader(s));
+        if (this.watching) {
+            this.disposeWatchers();
+            this.createWatchers();
+        }
+        await this.index.rebuild(this.readers);
+    }
+
+    /**
+     * Resolves which root and brain folder a file belongs to.
+     */
+    public getLocation(filePath: string): BrainLocation | undefined {
+        const reader = this.readers.find(r => r.contains(filePath));
+        if (!reader) {
+            return undefined;
+        }
+
+        const brain = reader.locateBrain(filePath);
+        return { source: reader.source, brainId: brain?.brainId, brainPath: brain?.brainPath };
+    }
+
+    /**
+     * The artifact whose title and frontmatter represent a brain (task.md for Antigravity).
+     */
+    public getPrimaryFile(brainPath: string): string {
+        return this.readerFor(brainPath).adapter.getPrimaryFile(brainPath);
+    }
+
+    /**
+     * Every brain across all roots, in no particular order.
+     */
+    public async getBrains(): Promise<Brain[]> {
+        await this.index.ready();
+        return Array.from(this.collectBrains().values());
+    }
+
+    /**
+     * The brain at `brainPath`, from the current index (undefined before the first scan).
+     */
+    public getBrain(brainPath: string): Brain | undefined {
+        return this.collectBrains().get(brainPath);
+    }
+
+    /**
+     * The brain a file belongs to, if any.
+     */
+    public getBrainForPath(filePath: string): Brain | undefined {
+        const brainPath = this.getLocation(filePath)?.brainPath;
+        return brainPath ? this.getBrain(brainPath) : undefined;
+    }
 
-        console.log('Parsing links...');
-        const links = await this.parser.parseLinks(nodes);
-        console.log(`Found ${links.length} links.`);
+    /**
+     * Parsed content of an artifact (title, frontmatter, preview...), from the index.
+     */
+    public getSummary(filePath: string): ArtifactSummary | undefined {
+        return this.index.getSummary(filePath);
+    }
+
+    /**
+     * Brains whose contents resemble this brain's, most similar first.
+     */
+    public getRelatedBrains(brainPath: string, limit: number = 5): { brain: Brain; score: number; sharedTerms: string[] }[] {
+        const brains = this.collectBrains();
+        if (!this.similarity) {
+            this.similarity = new BrainSimilarity(Array.from(brains.values()).map(brain => this.getBrainTerms(brain)));
+        }
+        return this.similarity.getSimilar(brainPath, limit)
+            .filter(s => brains.has(s.brainPath))
+            .map(s => ({ brain: brains.get(s.brainPath)!, score: s.score, sharedTerms: s.sharedTerms }));
+    }
+
+    /**
+     * Everything an annotation store needs to address a brain.
+     */
+    public getAnnotatedBrain(brainPath: string): AnnotatedBrain | undefined {
+        const location = this.getLocation(brainPath);
+        if (!location || !location.brainId) {
+            return undefined;
+        }
+        return {
+            id: location.brainId,
+            path: brainPath,
+            source: location.source,
+            rootPath: this.readerFor(brainPath).expandedRootPath,
+            primaryFile: this.getPrimaryFile(brainPath)
+        };
+    }
+
+    /**
+     * Updates a brain's pins/tags in the active store. Fires `onDidChange` once the
+     * brain reflects the change, without waiting for the file watcher.
+     */
+    public async annotate(brainPath: string, updates: Partial<BrainAnnotations>): Promise<void> {
+        const brain = this.getAnnotatedBrain(brainPath);
+        if (!brain) {
+            throw new Error(`Not a brain: ${brainPath}`);
+        }
+        await this.annotations.update(brain, updates);
+
+        if (this.annotations.modifiesArtifacts) {
+            await this.index.reload(brain.primaryFile);
+        } else {
+            this.invalidateAnnotations(brainPath);
+        }
+    }
+
+    /**
+     * Watches every brain root and feeds file-system events into the index.
+     */
+    public startWatching(): vscode.Disposable {
+        this.watching = true;
+        this.createWatchers();
+        return new vscode.Disposable(() => {
+            this.watching = false;
+            this.disposeWatchers();
+        });
+    }
+
+    public dispose(): void {
+        this.disposeWatchers();
+        this.indexSubscription.dispose();
+        this._onDidChange.dispose();
+        this.index.dispose();
+        this.cache.dispose();
+    }
+
+    private collectBrains(): Map<string, Brain> {
+        if (this.brains) {
+            return this.brains;
+        }
+
+        // Group indexed artifacts by the brain their layout assigns them to
+        const artifactsByBrain = new Map<string, { brainId: string; source: string; artifacts: BrainNode[] }>();
+        for (const node of this.index.getNodes()) {
+            const location = this.getLocation(node.path);
+            if (!location || !location.brainId || !location.brainPath) {
+                continue;
+            }
+            const entry = artifactsByBrain.get(location.brainPath)
+                || { brainId: location.brainId, source: location.source.id, artifacts: [] };
+            entry.artifacts.push(node);
+            artifactsByBrain.set(location.brainPath, entry);
+        }
+
+        const brains = new Map<string, Brain>();
+        for (const [brainPath, { brainId, source, artifacts }] of artifactsByBrain) {
+            let details = this.brainDetails.get(brainPath);
+            if (!details) {
+                details = this.readBrainDetails(brainPath, brainId, artifacts);
+                this.brainDetails.set(brainPath, details);
+            }
+
+            let updatedAt: number | undefined;
+            let historyCount = 0;
+            for (const artifact of artifacts) {
+                historyCount += artifact.resolvedVersions?.length || 0;
+                if (artifact.metadata?.updatedAt) {
+                    const time = new Date(artifact.metadata.updatedAt).getTime();
+                    if (!updatedAt || time > updatedAt) { updatedAt = time; }
+                }
+            }
+
+            const checklist = this.getChecklist(brainPath, artifacts);
+            brains.set(brainPath, { id: brainId, path: brainPath, source, ...details, updatedAt, artifacts, historyCount, checklist });
+        }
+        this.brains = brains;
+        return brains;
+    }
+
+    /**
+     * The only place brain titles, creation times and pinned/tags/status annotations are derived.
+     */
+    private readBrainDetails(brainPath: string, brainId: string, artifacts: BrainNode[]): BrainDetails {
+        const adapter = this.readerFor(brainPath).adapter;
+        const summary = this.index.getSummary(adapter.getPrimaryFile(brainPath));
+        const brain = this.getAnnotatedBrain(brainPath);
+        const annotations = brain ? this.annotations.get(brain) : {};
+
+        // Earliest createdAt any artifact reports, else when the brain appeared on disk
+        let createdAt: number | undefined;
+        for (const artifact of artifacts) {
+            if (artifact.metadata?.createdAt) {
+                const time = new Date(artifact.metadata.createdAt).getTime();
+                if (!createdAt || time < createdAt) { createdAt = time; }
+            }
+        }
+        if (!createdAt) {
+            try {
+                createdAt = fs.statSync(brainPath).birthtimeMs || undefined;
+            } catch (_) {}
+        }
+
+        return {
+            title: adapter.getTitle(brainPath, brainId, summary?.title),
+            createdAt,
+            tags: annotations.tags || [],
+            pinned: annotations.pinned === true,
+            status: isBrainStatus(annotations.status) ? annotations.status : 'active',
+            project: this.detectProject(artifacts)
+        };
+    }
+
+    /**
+     * The project of the code files a brain links to (links back into brain roots don't count).
+     */
+    private detectProject(artifacts: BrainNode[]): string | undefined {
+        const references = new Set<string>();
+        for (const artifact of artifacts) {
+            for (const filePath of this.index.getSummary(artifact.path)?.fileReferences || []) {
+                if (!this.getLocation(filePath)) {
+                    references.add(filePath);
+                }
+            }
+        }
+        return this.projects.detect(Array.from(references));
+    }
+
+    /**
+     * Checklist progress of the brain's primary file (task.md), else of all its artifacts together.
+     */
+    private getChecklist(brainPath: string, artifacts: BrainNode[]): ChecklistStats {
+        const primary = this.index.getSummary(this.getPrimaryFile(brainPath))?.checklist;
+        if (primary && primary.total > 0) {
+            return primary;
+        }
+        return sumChecklists(artifacts.map(a => this.index.getSummary(a.path)?.checklist).filter((c): c is ChecklistStats => !!c));
+    }
+
+    private getBrainTerms(brain: Brain): BrainTerms {
+        const counts = new Map<string, number>();
+        for (const artifact of brain.artifacts) {
+            const terms = this.index.getSummary(artifact.path)?.terms;
+            if (terms) {
+                Object.keys(terms).forEach(term => counts.set(term, (counts.get(term) || 0) + terms[term]));
+            }
+        }
+        return { brainPath: brain.path, counts };
+    }
+
+    /**
+     * Re-derives annotations of one brain (or all) and tells consumers.
+     */
+    private invalidateAnnotations(brainPath?: string): void {
+        if (brainPath) {
+            this.brainDetails.delete(brainPath);
+        } else {
+            this.brainDetails.clear();
+        }
+        this.brains = undefined;
+        this._onDidChange.fire({ changes: [], reset: false });
+    }
+
+    private readerFor(filePath: string): FileSystemReader {
+        return this.readers.find(r => r.contains(filePath)) || this.readers[0];
+    }
+
+    private createWatchers(): void {
+        for (const reader of this.readers) {
+            const pattern = new vscode.RelativePattern(vscode.Uri.file(reader.expandedRootPath), '**/*');
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+
+            watcher.onDidCreate(uri => this.index.notify(uri.fsPath, 'created'));
+            watcher.onDidChange(uri => this.index.notify(uri.fsPath, 'changed'));
+            watcher.onDidDelete(uri => this.index.notify(uri.fsPath, 'deleted'));
+
+            this.watchers.push(watcher);
+        }
+    }
 
-        return { nodes, links };
+    private disposeWatchers(): void {
+        this.watchers.forEach(w => w.dispose());
+        this.watchers = [];
     }
 }
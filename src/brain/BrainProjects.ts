@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Files that mark the root of a code project; a repository root wins over a package inside it
+const REPOSITORY_MARKER = '.git';
+const PROJECT_MARKERS = ['package.json', 'pyproject.toml', 'Cargo.toml', 'go.mod', 'pom.xml', 'build.gradle'];
+
+export interface ProjectFolder {
+    name: string;
+    path: string;
+}
+
+/**
+ * Works out which code project a brain was about from the files its artifacts reference:
+ * the open workspace folder, else the repository (or package) root, most referenced first.
+ */
+export class ProjectDetector {
+    private roots = new Map<string, string | undefined>(); // Directory -> project root containing it
+
+    /**
+     * @param getWorkspaceFolders Folders open in the window; their names are used as project names.
+     */
+    constructor(private getWorkspaceFolders: () => ProjectFolder[]) {}
+
+    /**
+     * Name of the project most of `filePaths` belong to, if any.
+     */
+    public detect(filePaths: string[]): string | undefined {
+        const workspaceFolders = this.getWorkspaceFolders();
+        const votes = new Map<string, number>();
+        for (const filePath of filePaths) {
+            const folder = workspaceFolders.find(f => isInside(filePath, f.path));
+            const root = folder ? undefined : this.findRoot(path.dirname(filePath));
+            const name = folder ? folder.name : root ? path.basename(root) : undefined;
+            if (name) {
+                votes.set(name, (votes.get(name) || 0) + 1);
+            }
+        }
+
+        let best: string | undefined;
+        votes.forEach((count, name) => {
+            if (!best || count > votes.get(best)! || (count === votes.get(best) && name < best)) {
+                best = name;
+            }
+        });
+        return best;
+    }
+
+    /**
+     * Forgets detected roots (e.g. after a rescan).
+     */
+    public clear(): void {
+        this.roots.clear();
+    }
+
+    private findRoot(directory: string): string | undefined {
+        if (this.roots.has(directory)) {
+            return this.roots.get(directory);
+        }
+
+        let repository: string | undefined;
+        let project: string | undefined;
+        for (let current = directory; ; current = path.dirname(current)) {
+            if (fs.existsSync(path.join(current, REPOSITORY_MARKER))) {
+                repository = current;
+                break;
+            }
+            if (!project && PROJECT_MARKERS.some(marker => fs.existsSync(path.join(current, marker)))) {
+                project = current;
+            }
+            if (path.dirname(current) === current) {
+                break;
+            }
+        }
+
+        const root = repository || project;
+        this.roots.set(directory, root);
+        return root;
+    }
+}
+
+function isInside(filePath: string, folderPath: string): boolean {
+    const relative = path.relative(folderPath, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,124 @@
+// Words shorter than this, numbers and ID-like strings say nothing about the topic
+const MIN_TERM_LENGTH = 3;
+// Words in more than this share of brains are too common to relate them
+const MAX_DOCUMENT_FREQUENCY = 0.5;
+// Strongest terms kept per brain; the long tail barely moves the score
+const MAX_TERMS_PER_BRAIN = 200;
+// Below this cosine similarity brains are not worth suggesting
+const MIN_SCORE = 0.05;
+const MAX_SHARED_TERMS = 5;
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'will', 'would', 'should',
+    'can', 'could', 'not', 'but', 'have', 'has', 'had', 'been', 'being', 'into', 'onto', 'than', 'then',
+    'there', 'their', 'them', 'they', 'these', 'those', 'what', 'when', 'where', 'which', 'while', 'who',
+    'why', 'how', 'all', 'any', 'each', 'some', 'more', 'most', 'also', 'only', 'just', 'our', 'your',
+    'you', 'its', 'use', 'used', 'using', 'via', 'per', 'out', 'now', 'new', 'add', 'added', 'need',
+    'make', 'sure', 'yes', 'see', 'let', 'etc', 'file', 'files', 'line', 'lines', 'md', 'http', 'https',
+    'www', 'com', 'task', 'tasks', 'plan', 'step', 'steps', 'done', 'todo'
+]);
+
+/**
+ * The words of one brain with how often they occur, summed over its artifacts.
+ */
+export interface BrainTerms {
+    brainPath: string;
+    counts: Map<string, number>;
+}
+
+export interface SimilarBrain {
+    brainPath: string;
+    score: number;          // Cosine similarity, 0..1
+    sharedTerms: string[];  // Terms contributing most to the score
+}
+
+/**
+ * Offline TF-IDF model of brain contents: brains are related when they use the same
+ * uncommon words. Built once from word counts and queried by cosine similarity.
+ */
+export class BrainSimilarity {
+    private vectors = new Map<string, Map<string, number>>();        // Brain -> term -> normalized weight
+    private postings = new Map<string, { brainPath: string; weight: number }[]>(); // Term -> brains using it
+
+    constructor(brains: BrainTerms[]) {
+        // Document frequency of every usable term
+        const documentFrequency = new Map<string, number>();
+        for (const brain of brains) {
+            brain.counts.forEach((_, term) => {
+                if (isUsableTerm(term)) {
+                    documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+                }
+            });
+        }
+
+        // A term found in one brain only relates it to nothing
+        const maxFrequency = Math.max(2, Math.floor(brains.length * MAX_DOCUMENT_FREQUENCY));
+        for (const brain of brains) {
+            let weights: [string, number][] = [];
+            brain.counts.forEach((count, term) => {
+                const df = documentFrequency.get(term);
+                if (df && df > 1 && df <= maxFrequency) {
+                    weights.push([term, (1 + Math.log(count)) * Math.log(brains.length / df)]);
+                }
+            });
+            weights = weights.sort((a, b) => b[1] - a[1]).slice(0, MAX_TERMS_PER_BRAIN);
+
+            const norm = Math.sqrt(weights.reduce((sum, [, w]) => sum + w * w, 0));
+            if (norm === 0) {
+                continue;
+            }
+            const vector = new Map<string, number>();
+            for (const [term, weight] of weights) {
+                vector.set(term, weight / norm);
+                let list = this.postings.get(term);
+                if (!list) {
+                    list = [];
+                    this.postings.set(term, list);
+                }
+                list.push({ brainPath: brain.brainPath, weight: weight / norm });
+            }
+            this.vectors.set(brain.brainPath, vector);
+        }
+    }
+
+    /**
+     * Brains most similar to `brainPath`, best first.
+     */
+    public getSimilar(brainPath: string, limit: number): SimilarBrain[] {
+        const vector = this.vectors.get(brainPath);
+        if (!vector) {
+            return [];
+        }
+
+        const scores = new Map<string, { score: number; terms: [string, number][] }>();
+        vector.forEach((weight, term) => {
+            for (const posting of this.postings.get(term) || []) {
+                if (posting.brainPath === brainPath) {
+                    continue;
+                }
+                const contribution = weight * posting.weight;
+                const entry = scores.get(posting.brainPath) || { score: 0, terms: [] };
+                entry.score += contribution;
+                entry.terms.push([term, contribution]);
+                scores.set(posting.brainPath, entry);
+            }
+        });
+
+        const similar: SimilarBrain[] = [];
+        scores.forEach(({ score, terms }, other) => {
+            if (score >= MIN_SCORE) {
+                const sharedTerms = terms.sort((a, b) => b[1] - a[1]).slice(0, MAX_SHARED_TERMS).map(([term]) => term);
+                similar.push({ brainPath: other, score: Math.min(1, score), sharedTerms });
+            }
+        });
+        return similar.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+}
+
+function isUsableTerm(term: string): boolean {
+    return term.length >= MIN_TERM_LENGTH
+        && !STOPWORDS.has(term)
+        && !/^[0-9_]+$/.test(term)
+        && !/^[0-9a-f_]{8,}$/.test(term)   // Hashes and UUID fragments
+        && !/^_+|_+$/.test(term);
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BrainSource } from './types';
+
+const DEFAULT_BRAIN_PATH = '~/.gemini/antigravity/brain';
+
+interface BrainRootSetting {
+    path?: string;
+    label?: string;
+    icon?: string;
+    adapter?: string;
+}
+
+/**
+ * Reads the configured brain roots.
+ * `antigravity.brainRoots` wins when set; otherwise the single `antigravity.brainPath` is used.
+ */
+export function loadBrainSources(): BrainSource[] {
+    const config = vscode.workspace.getConfiguration('antigravity');
+    const roots = (config.get<BrainRootSetting[]>('brainRoots') || []).filter(r => r && r.path);
+
+    if (roots.length === 0) {
+        const brainPath = config.get<string>('brainPath') || DEFAULT_BRAIN_PATH;
+        return [{ id: 'default', label: 'Brain', icon: 'library', path: brainPath, adapter: 'antigravity' }];
+    }
+
+    const usedIds = new Set<string>();
+    return roots.map(root => {
+        const label = root.label || path.basename(root.path!) || root.path!;
+
+        // Labels double as IDs — suffix duplicates so every source stays addressable
+        let id = label;
+        for (let n = 2; usedIds.has(id); n++) {
+            id = `${label} (${n})`;
+        }
+        usedIds.add(id);
+
+        return {
+            id,
+            label: id,
+            icon: root.icon || 'folder-library',
+            path: root.path!,
+            adapter: root.adapter || 'antigravity'
+        };
+    });
+}
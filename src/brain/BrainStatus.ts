@@ -0,0 +1,34 @@
+import { BrainStatus } from './types';
+
+export const BRAIN_STATUS_LABELS: Record<BrainStatus, string> = {
+    active: 'Active',
+    blocked: 'Blocked',
+    done: 'Done',
+    archived: 'Archived'
+};
+
+// Codicon shown for unpinned brains of each status
+export const BRAIN_STATUS_ICONS: Record<BrainStatus, string> = {
+    active: 'project',
+    blocked: 'circle-slash',
+    done: 'pass',
+    archived: 'archive'
+};
+
+// Theme color of those icons (default color when absent)
+export const BRAIN_STATUS_COLORS: Partial<Record<BrainStatus, string>> = {
+    blocked: 'charts.red',
+    done: 'charts.green'
+};
+
+// Sort order within the tree: work in progress first, finished work last
+export const BRAIN_STATUS_ORDER: Record<BrainStatus, number> = {
+    active: 0,
+    blocked: 1,
+    done: 2,
+    archived: 3
+};
+
+export function isBrainStatus(value: unknown): value is BrainStatus {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BRAIN_STATUS_LABELS, value);
+}
@@ -1,43 +1,121 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
 import { BrainManager } from './BrainManager';
-import { BrainNode } from './types';
-import { parseFrontmatter } from './FrontmatterUtils';
+import { Brain, BrainNode, BrainNodeMetadata, BrainStatus } from './types';
+import { ARTIFACT_TYPE_LABELS } from './ArtifactMetadata';
+import { ArtifactKind, getArtifactKind } from './ArtifactKinds';
+import { BRAIN_STATUS_COLORS, BRAIN_STATUS_ICONS, BRAIN_STATUS_LABELS, BRAIN_STATUS_ORDER } from './BrainStatus';
+import { collectTags, getTagColor, TAG_SEPARATOR } from './Tags';
+import { BrainFilter, describeFilter, includesArchived, isEmptyFilter, matchesFilter, SavedFilter } from './BrainFilter';
+import { BRAIN_GROUPING_ICONS, BrainGrouping, DATE_BUCKET_LABELS, DateBucket, getDateBucket } from './BrainGrouping';
+import { ChecklistItem, ChecklistState, formatChecklistProgress, getChildItems, hasChildItems, isTaskList } from './Checklist';
 
-export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode> {
+const NON_MARKDOWN_ICONS: Record<Exclude<ArtifactKind, 'markdown'>, string> = {
+    image: 'file-media',
+    json: 'json',
+    code: 'file-code',
+    text: 'file-text',
+    binary: 'file-binary'
+};
+
+const MAX_RELATED_BRAINS = 5;
+
+export const CHECKLIST_ICONS: Record<ChecklistState, vscode.ThemeIcon> = {
+    todo: new vscode.ThemeIcon('circle-large-outline'),
+    inProgress: new vscode.ThemeIcon('sync', new vscode.ThemeColor('charts.yellow')),
+    done: new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green'))
+};
+
+export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode>, vscode.Disposable {
     private _onDidChangeTreeData: vscode.EventEmitter<BrainNode | undefined | null | void> = new vscode.EventEmitter<BrainNode | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<BrainNode | undefined | null | void> = this._onDidChangeTreeData.event;
 
     // Cache for directory nodes so getParent returns the same object reference as getChildren
     private directoryNodeCache = new Map<string, BrainNode>();
+    private sourceNodeCache = new Map<string, BrainNode>();
+    private folderNodeCache = new Map<string, BrainNode>();
+    private groupNodeCache = new Map<string, BrainNode>(); // Tag, saved filter, Related Brains and grouping nodes, by ID
+    private archiveNode: BrainNode = {
+        id: '__brain_archive__',
+        path: '',
+        name: 'Archive',
+        type: 'archive'
+    };
+
+    // Active filter (undefined = show all)
+    public activeFilter: BrainFilter | undefined = undefined;
+    private _onDidChangeFilter = new vscode.EventEmitter<BrainFilter | undefined>();
+    readonly onDidChangeFilter: vscode.Event<BrainFilter | undefined> = this._onDidChangeFilter.event;
+
+    // How brains are grouped below the summary
+    private grouping: BrainGrouping = 'none';
+
+    private indexSubscription: vscode.Disposable;
 
-    // Active tag filter (undefined = show all)
-    public activeTagFilter: string | undefined = undefined;
+    /**
+     * @param isUnread Whether a brain changed since it was last viewed (for the Unread filter).
+     */
+    constructor(private brainManager: BrainManager, private isUnread: (brainPath: string) => boolean = () => false) {
+        // Re-render whenever the index picks up a change on disk
+        this.indexSubscription = brainManager.onDidChange(() => this.refresh());
+    }
 
-    constructor(private brainManager: BrainManager) {}
+    dispose(): void {
+        this.indexSubscription.dispose();
+        this._onDidChangeTreeData.dispose();
+        this._onDidChangeFilter.dispose();
+    }
 
     refresh(): void {
         this.directoryNodeCache.clear(); // Clear cache on refresh
+        this.sourceNodeCache.clear();
+        this.folderNodeCache.clear();
+        this.groupNodeCache.clear();
         this._onDidChangeTreeData.fire();
     }
 
-    setTagFilter(tag: string | undefined): void {
-        this.activeTagFilter = tag;
+    setFilter(filter: BrainFilter | undefined): void {
+        this.activeFilter = isEmptyFilter(filter) ? undefined : filter;
         this.directoryNodeCache.clear();
         this._onDidChangeTreeData.fire();
+        this._onDidChangeFilter.fire(this.activeFilter);
+    }
+
+    getGrouping(): BrainGrouping {
+        return this.grouping;
+    }
+
+    setGrouping(grouping: BrainGrouping): void {
+        this.grouping = grouping;
+        this.refresh();
+    }
+
+    /**
+     * Named filters from `antigravity.savedFilters`, shown as root nodes.
+     */
+    getSavedFilters(): SavedFilter[] {
+        const saved = vscode.workspace.getConfiguration('antigravity').get<SavedFilter[]>('savedFilters') || [];
+        return saved.filter(f => f && f.name && f.filter);
     }
 
     getTreeItem(element: BrainNode): vscode.TreeItem {
-        const treeItem = new vscode.TreeItem(element.name, element.type === 'directory' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        const isContainer = element.type === 'directory' || element.type === 'folder';
+        const treeItem = new vscode.TreeItem(element.name, isContainer ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
         
         if (element.type === 'file') {
+             const kind = getArtifactKind(element.path);
              treeItem.resourceUri = vscode.Uri.file(element.path);
-             treeItem.command = {
-                command: 'vscode.open',
-                title: "Open File",
-                arguments: [vscode.Uri.file(element.path)]
-            };
+             treeItem.command = kind === 'image'
+                ? {
+                    command: 'vscode.openWith',
+                    title: "Preview Image",
+                    arguments: [vscode.Uri.file(element.path), 'imagePreview.previewEditor']
+                }
+                : {
+                    command: 'vscode.open',
+                    title: "Open File",
+                    arguments: [vscode.Uri.file(element.path)]
+                };
             
             // Show resolved versions count if any
             if (element.resolvedVersions && element.resolvedVersions.length > 0) {
@@ -46,6 +124,13 @@ export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode> {
                 treeItem.contextValue = 'fileWithHistory';
             }
             
+            // Task lists show their progress and expand into their items
+            if (this.getChecklistItems(element).length > 0) {
+                const progress = formatChecklistProgress(this.brainManager.getSummary(element.path)!.checklist);
+                treeItem.description = treeItem.description ? `${progress} • ${treeItem.description}` : progress;
+                treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+            }
+
             // Show Updated At if metadata exists
             if (element.metadata && element.metadata.updatedAt) {
                  const date = new Date(element.metadata.updatedAt);
@@ -59,34 +144,112 @@ export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode> {
                  }
             }
             
-            // Custom Icons based on filename
+            // Custom Icons based on the declared artifact type, else the filename
             const lowerName = element.name.toLowerCase();
-            if (lowerName.includes('task')) {
+            const artifactType = element.metadata?.artifactType;
+            if (kind !== 'markdown') {
+                treeItem.iconPath = new vscode.ThemeIcon(NON_MARKDOWN_ICONS[kind]);
+            } else if (artifactType === 'task' || (!artifactType && lowerName.includes('task'))) {
                 treeItem.iconPath = new vscode.ThemeIcon('checklist');
-            } else if (lowerName.includes('plan') || lowerName.includes('implementation')) {
+            } else if (artifactType === 'implementation_plan' || (!artifactType && (lowerName.includes('plan') || lowerName.includes('implementation')))) {
                 treeItem.iconPath = new vscode.ThemeIcon('book');
-            } else if (lowerName.includes('walkthrough')) {
+            } else if (artifactType === 'walkthrough' || (!artifactType && lowerName.includes('walkthrough'))) {
                 treeItem.iconPath = new vscode.ThemeIcon('play-circle');
             } else {
                 // Default icon for other files
                 treeItem.iconPath = new vscode.ThemeIcon('file');
             }
 
-            // Markdown preview tooltip
-            try {
-                const content = fs.readFileSync(element.path, 'utf8');
-                const lines = content.split('\n');
-                const previewLines = lines.slice(0, 30);
-                let preview = previewLines.join('\n');
-                if (lines.length > 30) {
-                    preview += `\n\n---\n*... (${lines.length} lines total)*`;
-                }
-                const md = new vscode.MarkdownString(preview);
-                md.isTrusted = true;
+            // Preview tooltip: rendered Markdown, fenced source for other text, the image itself for images
+            if (kind === 'image') {
+                const md = new vscode.MarkdownString(this.formatMetadataHeader(element.metadata) + `![${element.name}](${vscode.Uri.file(element.path).toString()}|height=200)`);
                 treeItem.tooltip = md;
-            } catch (_) {
-                // Keep default tooltip if file can't be read
+            } else {
+                // Served from the index — no disk reads while rendering
+                const summary = this.brainManager.getSummary(element.path);
+                if (summary) {
+                    let preview = summary.preview;
+                    if (kind !== 'markdown') {
+                        preview = '```' + path.extname(element.path).slice(1) + '\n' + preview + '\n```';
+                    }
+                    if (summary.lineCount > 30) {
+                        preview += `\n\n---\n*... (${summary.lineCount} lines total)*`;
+                    }
+                    const md = new vscode.MarkdownString(this.formatMetadataHeader(element.metadata) + preview);
+                    md.isTrusted = true;
+                    treeItem.tooltip = md;
+                }
             }
+        } else if (element.type === 'checklistItem') {
+             // One item of a task list: jumps to its line
+             const item = this.getChecklistItem(element);
+             treeItem.iconPath = CHECKLIST_ICONS[item ? item.state : 'todo'];
+             treeItem.collapsibleState = item && hasChildItems(this.getChecklistItems(element), item)
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.None;
+             treeItem.contextValue = 'brainChecklistItem';
+             treeItem.tooltip = `${path.basename(element.path)}:${(element.line || 0) + 1}`;
+             treeItem.command = {
+                 command: 'vscode.open',
+                 title: 'Open Task',
+                 arguments: [vscode.Uri.file(element.path), { selection: new vscode.Range(element.line || 0, 0, element.line || 0, 0) }]
+             };
+        } else if (element.type === 'folder') {
+             // Sub-folder inside a brain
+             treeItem.iconPath = vscode.ThemeIcon.Folder;
+             treeItem.resourceUri = vscode.Uri.file(element.path);
+             treeItem.contextValue = 'brainFolder';
+             treeItem.tooltip = element.path;
+        } else if (element.type === 'source') {
+             // Source root section (only shown with multiple roots)
+             const source = this.brainManager.getSource(element.source);
+             treeItem.iconPath = new vscode.ThemeIcon(source?.icon || 'folder-library');
+             treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+             treeItem.contextValue = 'brainSource';
+             treeItem.tooltip = element.path;
+             treeItem.description = `${element.metadata?.fileCount || 0} brains`;
+        } else if (element.type === 'tag') {
+             // Tags section and its tag hierarchy
+             const color = element.tag ? getTagColor(element.tag) : undefined;
+             treeItem.iconPath = new vscode.ThemeIcon('tag', color ? new vscode.ThemeColor(color) : undefined);
+             treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+             treeItem.contextValue = element.tag ? 'brainTag' : 'brainTagSection';
+             treeItem.tooltip = element.tag || 'Brains grouped by tag';
+             treeItem.description = `${element.metadata?.fileCount || 0} brains`;
+        } else if (element.type === 'filter') {
+             // Saved filter ("smart folder")
+             const saved = this.getSavedFilters().find(f => f.name === element.name);
+             treeItem.iconPath = new vscode.ThemeIcon('filter');
+             treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+             treeItem.contextValue = 'brainSavedFilter';
+             treeItem.tooltip = saved ? describeFilter(saved.filter) : element.name;
+             treeItem.description = `${element.metadata?.fileCount || 0} brains`;
+        } else if (element.type === 'group') {
+             // Date bucket, status, tag or project the brains are grouped by
+             const key = element.group || '';
+             const status = this.grouping === 'status' ? key as BrainStatus : undefined;
+             const color = status ? BRAIN_STATUS_COLORS[status] : this.grouping === 'tag' && key ? getTagColor(key) : undefined;
+             treeItem.iconPath = new vscode.ThemeIcon(status ? BRAIN_STATUS_ICONS[status] : BRAIN_GROUPING_ICONS[this.grouping],
+                color ? new vscode.ThemeColor(color) : undefined);
+             treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+             treeItem.contextValue = 'brainGroup';
+        } else if (element.type === 'related') {
+             // Brains with similar contents, inside a brain
+             const related = this.brainManager.getRelatedBrains(element.path, MAX_RELATED_BRAINS);
+             treeItem.iconPath = new vscode.ThemeIcon('sparkle');
+             treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+             treeItem.contextValue = 'brainRelated';
+             treeItem.tooltip = related
+                .map(r => `${r.brain.title} — ${Math.round(r.score * 100)}% (${r.sharedTerms.join(', ')})`)
+                .join('\n');
+             treeItem.description = `${element.metadata?.fileCount || 0} brains`;
+        } else if (element.type === 'archive') {
+             // Collapsible section holding archived brains
+             treeItem.iconPath = new vscode.ThemeIcon('archive');
+             treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+             treeItem.contextValue = 'brainArchive';
+             treeItem.tooltip = 'Archived brains (hidden from the list above)';
+             treeItem.description = `${element.metadata?.fileCount || 0} brains`;
         } else if (element.type === 'summary') {
              // Summary header node (non-expandable count)
              treeItem.iconPath = new vscode.ThemeIcon('library');
@@ -96,10 +259,29 @@ export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode> {
         } else {
              // For directories (Brain Tasks)
              const isPinned = element.metadata?.pinned === true;
-             treeItem.iconPath = new vscode.ThemeIcon(isPinned ? 'pin' : 'project');
+             const status = element.metadata?.status || 'active';
+             const statusColor = BRAIN_STATUS_COLORS[status];
+             treeItem.iconPath = isPinned
+                ? new vscode.ThemeIcon('pin')
+                : new vscode.ThemeIcon(BRAIN_STATUS_ICONS[status], statusColor ? new vscode.ThemeColor(statusColor) : undefined);
              treeItem.contextValue = isPinned ? 'brainTaskPinned' : 'brainTask';
-             // Tooltip shows the UUID/Path
-             treeItem.tooltip = element.path;
+             treeItem.resourceUri = vscode.Uri.file(element.path); // Picks up the unread badge
+             // Tooltip shows the UUID/Path (and the root it came from)
+             const source = this.brainManager.getSource(element.source);
+             const showSource = this.brainManager.sources.length > 1;
+             const tooltipLines = [element.path];
+             if (showSource && source) {
+                 tooltipLines.push(`Source: ${source.label}`);
+             }
+             if (status !== 'active') {
+                 tooltipLines.push(`Status: ${BRAIN_STATUS_LABELS[status]}`);
+             }
+             const checklist = element.metadata?.checklist;
+             if (checklist && checklist.total > 0) {
+                 const todo = checklist.total - checklist.done - checklist.inProgress;
+                 tooltipLines.push(`Tasks: ${checklist.done}/${checklist.total} done, ${checklist.inProgress} in progress, ${todo} to do`);
+             }
+             treeItem.tooltip = tooltipLines.join('\n');
              
              // Description order: file count → time → brain ID → tags
              const parts: string[] = [];
@@ -107,6 +289,12 @@ export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode> {
              // File count
              const fileCount = element.metadata?.fileCount || 0;
              parts.push(`📄 ${fileCount}`);
+
+             // Checklist progress
+             const progress = checklist ? formatChecklistProgress(checklist) : undefined;
+             if (progress) {
+                 parts.push(progress);
+             }
              
              // Latest update time
              if (element.metadata && element.metadata.lastUpdated) {
@@ -122,142 +310,84 @@ export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode> {
              if (element.metadata?.tags && element.metadata.tags.length > 0) {
                  parts.push(`[${element.metadata.tags.join(', ')}]`);
              }
+
+             // Source label, when brains from several roots are interleaved
+             if (showSource && source && !this.isGroupedBySource()) {
+                 parts.push(source.label);
+             }
              
              treeItem.description = parts.join(' • ');
+
+             if (element.parentId !== undefined) {
+                 // A brain listed under a tag or saved filter: a shortcut to the brain in the main list
+                 treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+                 treeItem.command = {
+                     command: 'antigravity-brain.revealBrain',
+                     title: 'Reveal Brain',
+                     arguments: [element.path]
+                 };
+             }
         }
 
         return treeItem;
     }
 
+    /**
+     * Sidecar details shown above the Markdown preview in a file tooltip.
+     */
+    private formatMetadataHeader(metadata: BrainNodeMetadata | undefined): string {
+        if (!metadata) {
+            return '';
+        }
+        const facts: string[] = [];
+        if (metadata.artifactType) {
+            facts.push(`**${ARTIFACT_TYPE_LABELS[metadata.artifactType]}**`);
+        }
+        if (metadata.version !== undefined) {
+            facts.push(`v${metadata.version}`);
+        }
+        if (metadata.createdAt) {
+            facts.push(`created ${new Date(metadata.createdAt).toLocaleString()}`);
+        }
+
+        const header: string[] = [];
+        if (facts.length > 0) {
+            header.push(facts.join(' · '));
+        }
+        if (metadata.summary) {
+            header.push(`> ${metadata.summary.replace(/\n/g, ' ')}`);
+        }
+        if (metadata.warnings) {
+            header.push(`⚠️ *Malformed .metadata.json: ${metadata.warnings.join('; ')}*`);
+        }
+        return header.length > 0 ? header.join('\n\n') + '\n\n---\n\n' : '';
+    }
+
     async getChildren(element?: BrainNode): Promise<BrainNode[]> {
         const graph = await this.brainManager.buildGraph();
-        let rootPath = this.brainManager.rootPath;
-        if (rootPath.startsWith('~')) {
-            rootPath = path.join(process.env.HOME || process.env.USERPROFILE || '', rootPath.slice(1));
-        }
         
         if (!element) {
-            // Root: Return Directories (Brain Tasks) and Root Files
-            // Group nodes by their immediate parent folder inside rootPath
-            const taskFolders = new Map<string, BrainNode>();
-            const rootFiles: BrainNode[] = [];
-
-            graph.nodes.forEach(node => {
-                const relativePath = path.relative(rootPath, node.path);
-                const segments = relativePath.split(path.sep);
-                
-                // If it's a file in a subdirectory
-                if (segments.length > 1) {
-                    const folderName = segments[0];
-                    const folderPath = path.join(rootPath, folderName);
-                    
-                    if (!taskFolders.has(folderName)) {
-                        // Try to find a human readable name from task.md inside this folder
-                        let displayName = folderName;
-                        let pinnedStatus = false;
-                        let tagsValue: string[] = [];
-                        try {
-                            const taskMdPath = path.join(folderPath, 'task.md');
-                            if (fs.existsSync(taskMdPath)) {
-                                // Parse frontmatter for pinned/tags
-                                const fm = parseFrontmatter(taskMdPath);
-                                pinnedStatus = fm.pinned === true;
-                                tagsValue = fm.tags || [];
-
-                                const content = fs.readFileSync(taskMdPath, 'utf8');
-                                const lines = content.split('\n');
-                                let inFrontmatter = false;
-                                // Look for first H1 header, skipping frontmatter
-                                for (let i = 0; i < lines.length; i++) {
-                                    const line = lines[i].trim();
-                                    if (i === 0 && line === '---') {
-                                        inFrontmatter = true;
-                                        continue;
-                                    }
-                                    if (inFrontmatter) {
-                                        if (line === '---') {
-                                            inFrontmatter = false;
-                                        }
-                                        continue;
-                                    }
-                                    
-                                    // Match H1 headers like "# Title"
-                                    if (line.startsWith('# ')) {
-                                        displayName = line.substring(2).trim();
-                                        break;
-                                    }
-                                }
-                            }
-                        } catch (e) {
-                            // Ignore read errors
-                        }
-
-                        const newNode: BrainNode = {
-                            id: folderPath,
-                            path: folderPath,
-                            name: displayName,
-                            type: 'directory',
-                            metadata: { lastUpdated: 0, fileCount: 0, pinned: pinnedStatus, tags: tagsValue }
-                        };
-                        taskFolders.set(folderName, newNode);
-                        // Store in cache so getParent returns the exact same object reference
-                        this.directoryNodeCache.set(folderPath, newNode);
-                    }
-                    
-                    // Update folder's lastUpdated time and file count
-                    if (taskFolders.has(folderName)) {
-                        const folderNode = taskFolders.get(folderName);
-                        if (folderNode && folderNode.metadata) {
-                            // Count this file (non-history)
-                            folderNode.metadata.fileCount = (folderNode.metadata.fileCount || 0) + 1;
-                            
-                            if (node.metadata && node.metadata.updatedAt) {
-                                const fileTime = new Date(node.metadata.updatedAt).getTime();
-                                if (fileTime > (folderNode.metadata.lastUpdated || 0)) {
-                                    folderNode.metadata.lastUpdated = fileTime;
-                                }
-                            }
-                        }
-                    }
-                } else if (segments.length === 1) {
-                    // File in the root
-                    rootFiles.push(node);
-                }
-            });
+            const { folders, archived, rootFiles } = await this.collectBrains(graph.nodes);
 
-            const folders = Array.from(taskFolders.values()).sort((a, b) => {
-                 // Sort folders: Pinned first → then lastUpdated desc → then name
-                 const aPinned = a.metadata?.pinned === true ? 1 : 0;
-                 const bPinned = b.metadata?.pinned === true ? 1 : 0;
-                 if (aPinned !== bPinned) { return bPinned - aPinned; }
-                 const timeA = a.metadata?.lastUpdated || 0;
-                 const timeB = b.metadata?.lastUpdated || 0;
-                 if (timeA !== timeB) { return timeB - timeA; }
-                 return a.name.localeCompare(b.name);
-            });
-            
-            rootFiles.sort((a, b) => {
-                // Sort files by updatedAt desc, then name
-                 const timeA = a.metadata?.updatedAt ? new Date(a.metadata.updatedAt).getTime() : 0;
-                 const timeB = b.metadata?.updatedAt ? new Date(b.metadata.updatedAt).getTime() : 0;
-                 if (timeA !== timeB) return timeB - timeA;
-                 return a.name.localeCompare(b.name);
-            });
+            // Apply filter if active
+            const filteredFolders = this.applyFilter(folders);
+            const activeFilter = this.activeFilter;
 
-            // Apply tag filter if active
-            let filteredFolders = folders;
-            const activeFilter = this.activeTagFilter;
-            if (activeFilter) {
-                filteredFolders = folders.filter(f =>
-                    (f.metadata?.tags || []).includes(activeFilter)
-                );
-            }
+            // Archived brains live in their own section at the bottom
+            const filteredArchived = this.applyFilter(archived);
+            this.archiveNode.metadata = { fileCount: filteredArchived.length };
+            const archiveNodes = filteredArchived.length > 0 ? [this.archiveNode] : [];
+
+            // Tags section, when any brain is tagged
+            const tagsSection = this.getTagNode('');
+            tagsSection.metadata = { fileCount: folders.filter(f => (f.metadata?.tags || []).length > 0).length };
+            const tagNodes = tagsSection.metadata.fileCount ? [tagsSection] : [];
 
             // Add summary header node at the top
             const totalShown = filteredFolders.length;
             const totalAll = folders.length;
             const filterLabel = activeFilter
-                ? ` (🏷️ ${activeFilter}: ${totalShown}/${totalAll})`
+                ? ` (🔎 ${totalShown}/${totalAll} shown)`
                 : '';
             const summaryNode: BrainNode = {
                 id: '__brain_summary__',
@@ -266,81 +396,497 @@ export class BrainTreeProvider implements vscode.TreeDataProvider<BrainNode> {
                 type: 'summary',
             };
 
-            return [summaryNode, ...filteredFolders, ...rootFiles];
-        } else if (element.type === 'directory') {
-            // Directory: Return files inside this directory
-             return graph.nodes.filter(node => {
-                 const relativeToFolder = path.relative(element.path, node.path);
-                 return !relativeToFolder.startsWith('..') && !path.isAbsolute(relativeToFolder) && !relativeToFolder.includes(path.sep);
-            }).sort((a, b) => {
-                 // Sort files by updatedAt desc, then name
-                 const timeA = a.metadata?.updatedAt ? new Date(a.metadata.updatedAt).getTime() : 0;
-                 const timeB = b.metadata?.updatedAt ? new Date(b.metadata.updatedAt).getTime() : 0;
-                 if (timeA !== timeB) return timeB - timeA;
-                 return a.name.localeCompare(b.name);
+            // Saved filters right below the summary
+            const savedFilterNodes = this.getSavedFilters().map(saved => {
+                const filterNode = this.getSavedFilterNode(saved.name);
+                filterNode.metadata = { fileCount: this.getSavedFilterBrains(saved, folders, archived).length };
+                return filterNode;
             });
+
+            if (this.isGroupedByKey()) {
+                // One section per date bucket, status, tag or project; tags make the Tags section redundant
+                const groupNodes = this.getGroupNodes(filteredFolders);
+                const otherTagNodes = this.grouping === 'tag' ? [] : tagNodes;
+                return [summaryNode, ...savedFilterNodes, ...groupNodes, ...rootFiles, ...otherTagNodes, ...archiveNodes];
+            }
+
+            if (this.isGroupedBySource()) {
+                // One collapsible section per configured root
+                const sourceNodes = this.brainManager.sources.map(source => {
+                    const sourceNode = this.getSourceNode(source.id);
+                    sourceNode.metadata = {
+                        fileCount: filteredFolders.filter(f => f.source === source.id).length
+                    };
+                    return sourceNode;
+                });
+                return [summaryNode, ...savedFilterNodes, ...sourceNodes, ...tagNodes, ...archiveNodes];
+            }
+
+            return [summaryNode, ...savedFilterNodes, ...filteredFolders, ...rootFiles, ...tagNodes, ...archiveNodes];
+        } else if (element.type === 'source') {
+            // Source: Return the brains (and loose root files) of this root
+            const { folders, rootFiles } = await this.collectBrains(graph.nodes, element.source);
+            return [...this.applyFilter(folders), ...rootFiles];
+        } else if (element.type === 'tag') {
+            // Tag: its sub-tags, then the (non-archived) brains tagged with exactly this tag
+            const { folders } = await this.collectBrains(graph.nodes);
+            return this.getTagChildren(element.tag || '', folders);
+        } else if (element.type === 'filter') {
+            // Saved filter: every matching brain, as shortcuts
+            const saved = this.getSavedFilters().find(f => f.name === element.name);
+            if (!saved) {
+                return [];
+            }
+            const { folders, archived } = await this.collectBrains(graph.nodes);
+            return this.getSavedFilterBrains(saved, folders, archived).map(f => this.toShortcut(f, element));
+        } else if (element.type === 'archive') {
+            // Archive: archived brains of every root, most recent first
+            const { archived } = await this.collectBrains(graph.nodes);
+            return this.applyFilter(archived);
+        } else if (element.type === 'group') {
+            // Group: its brains; a brain with several tags lives under its first and is a shortcut elsewhere
+            const { folders } = await this.collectBrains(graph.nodes);
+            return this.applyFilter(folders)
+                .filter(f => this.getGroupKeys(f).includes(element.group || ''))
+                .map(f => this.getGroupKeys(f)[0] === element.group ? f : this.toShortcut(f, element));
+        } else if (element.type === 'file' || element.type === 'checklistItem') {
+            // Task list or item: the checklist items nested under it
+            const items = this.getChecklistItems(element);
+            const parent = element.type === 'checklistItem' ? this.getChecklistItem(element) : undefined;
+            if (items.length === 0 || (element.type === 'checklistItem' && !parent)) {
+                return [];
+            }
+            return getChildItems(items, parent).map(item => this.toChecklistNode(element.path, item));
+        } else if (element.type === 'related') {
+            // Related Brains: the most similar brains, as shortcuts
+            return this.brainManager.getRelatedBrains(element.path, MAX_RELATED_BRAINS)
+                .map(r => this.toShortcut(this.toDirectoryNode(r.brain), element));
+        } else if (element.type === 'directory' || element.type === 'folder') {
+            // Brain or sub-folder: mirror the real folder hierarchy inside the brain
+            const brain = this.brainManager.getBrainForPath(element.path) || this.brainManager.getBrain(element.path);
+            if (!brain) {
+                return [];
+            }
+            const children = this.getFolderChildren(brain, element.path);
+            if (element.type === 'directory' && this.isShowingRelated()) {
+                // Related Brains after the brain's own files
+                const relatedCount = this.brainManager.getRelatedBrains(brain.path, MAX_RELATED_BRAINS).length;
+                if (relatedCount > 0) {
+                    const relatedNode = this.getRelatedNode(brain.path);
+                    relatedNode.metadata = { fileCount: relatedCount };
+                    children.push(relatedNode);
+                }
+            }
+            return children;
         }
 
         return [];
     }
 
+    private applyFilter(folders: BrainNode[]): BrainNode[] {
+        const activeFilter = this.activeFilter;
+        return activeFilter ? folders.filter(f => matchesFilter(this.toFilterable(f), activeFilter)) : folders;
+    }
+
+    private getSavedFilterBrains(saved: SavedFilter, folders: BrainNode[], archived: BrainNode[]): BrainNode[] {
+        // Archived brains only show up when the filter explicitly asks for that status
+        const candidates = includesArchived(saved.filter) ? [...folders, ...archived] : folders;
+        return candidates.filter(f => matchesFilter(this.toFilterable(f), saved.filter));
+    }
+
+    private toFilterable(node: BrainNode) {
+        return {
+            tags: node.metadata?.tags || [],
+            pinned: node.metadata?.pinned === true,
+            status: node.metadata?.status || 'active',
+            updatedAt: node.metadata?.lastUpdated,
+            unread: this.isUnread(node.path)
+        };
+    }
+
     /**
-     * Required for TreeView.reveal() — returns the parent node of the given element.
+     * A copy of a brain node listed under a tag, saved filter or Related Brains.
      */
-    getParent(element: BrainNode): vscode.ProviderResult<BrainNode> {
-        if (element.type === 'summary' || element.type === 'directory') {
-            return undefined; // Top-level items have no parent
+    private toShortcut(brainNode: BrainNode, parent: BrainNode): BrainNode {
+        return { ...brainNode, id: `${parent.id}:${brainNode.path}`, parentId: parent.id };
+    }
+
+    private getSavedFilterNode(name: string): BrainNode {
+        const id = `__brain_filter__:${name}`;
+        let filterNode = this.groupNodeCache.get(id);
+        if (!filterNode) {
+            filterNode = { id, path: '', name, type: 'filter' };
+            this.groupNodeCache.set(id, filterNode);
         }
+        return filterNode;
+    }
 
-        // For files, derive the parent directory path
-        let rootPath = this.brainManager.rootPath;
-        if (rootPath.startsWith('~')) {
-            rootPath = path.join(process.env.HOME || process.env.USERPROFILE || '', rootPath.slice(1));
+    private isGroupedByKey(): boolean {
+        return this.grouping === 'date' || this.grouping === 'status' || this.grouping === 'tag' || this.grouping === 'project';
+    }
+
+    /**
+     * Groups a brain belongs to under the current grouping, its home group first.
+     */
+    private getGroupKeys(node: BrainNode): string[] {
+        switch (this.grouping) {
+            case 'date':
+                return [getDateBucket(node.metadata?.lastUpdated)];
+            case 'status':
+                return [node.metadata?.status || 'active'];
+            case 'project':
+                return [this.brainManager.getBrain(node.path)?.project || ''];
+            case 'tag': {
+                const tags = (node.metadata?.tags || []).slice().sort();
+                return tags.length > 0 ? tags : [''];
+            }
+            default:
+                return [];
         }
+    }
 
-        const relativePath = path.relative(rootPath, element.path);
-        const segments = relativePath.split(path.sep);
+    /**
+     * The non-empty groups, in display order, labelled with their brain counts.
+     */
+    private getGroupNodes(folders: BrainNode[]): BrainNode[] {
+        const counts = new Map<string, number>();
+        folders.forEach(f => this.getGroupKeys(f).forEach(key => counts.set(key, (counts.get(key) || 0) + 1)));
 
-        if (segments.length > 1) {
-            const folderPath = path.join(rootPath, segments[0]);
+        let keys: string[];
+        if (this.grouping === 'date') {
+            keys = (Object.keys(DATE_BUCKET_LABELS) as DateBucket[]).filter(key => counts.has(key));
+        } else if (this.grouping === 'status') {
+            keys = (Object.keys(BRAIN_STATUS_LABELS) as BrainStatus[]).filter(key => counts.has(key));
+        } else {
+            // Alphabetical, brains without a tag or project last
+            keys = Array.from(counts.keys()).sort((a, b) => !a ? 1 : !b ? -1 : a.localeCompare(b));
+        }
+
+        return keys.map(key => {
+            const groupNode = this.getGroupNode(key);
+            groupNode.name = `${this.getGroupLabel(key)} (${counts.get(key)})`;
+            groupNode.metadata = { fileCount: counts.get(key) };
+            return groupNode;
+        });
+    }
+
+    private getGroupLabel(key: string): string {
+        switch (this.grouping) {
+            case 'date':
+                return DATE_BUCKET_LABELS[key as DateBucket];
+            case 'status':
+                return BRAIN_STATUS_LABELS[key as BrainStatus];
+            case 'tag':
+                return key || 'Untagged';
+            default:
+                return key || 'No Project';
+        }
+    }
+
+    private getGroupNode(key: string): BrainNode {
+        const id = `__brain_group__:${this.grouping}:${key}`;
+        let groupNode = this.groupNodeCache.get(id);
+        if (!groupNode) {
+            groupNode = { id, path: '', name: this.getGroupLabel(key), type: 'group', group: key };
+            this.groupNodeCache.set(id, groupNode);
+        }
+        return groupNode;
+    }
+
+    /**
+     * Checklist items of a task list (the file of a checklist item node); none for other files.
+     */
+    private getChecklistItems(node: BrainNode): ChecklistItem[] {
+        if (node.type === 'file' && !isTaskList(node)) {
+            return [];
+        }
+        return this.brainManager.getSummary(node.path)?.checklistItems || [];
+    }
+
+    private getChecklistItem(node: BrainNode): ChecklistItem | undefined {
+        return this.getChecklistItems(node).find(i => i.line === node.line);
+    }
+
+    private toChecklistNode(filePath: string, item: ChecklistItem): BrainNode {
+        return {
+            id: `${filePath}#L${item.line + 1}`,
+            path: filePath,
+            name: item.text || '(empty)',
+            type: 'checklistItem',
+            line: item.line
+        };
+    }
+
+    private getRelatedNode(brainPath: string): BrainNode {
+        const id = `__brain_related__:${brainPath}`;
+        let relatedNode = this.groupNodeCache.get(id);
+        if (!relatedNode) {
+            relatedNode = { id, path: brainPath, name: 'Related Brains', type: 'related' };
+            this.groupNodeCache.set(id, relatedNode);
+        }
+        return relatedNode;
+    }
+
+    private isShowingRelated(): boolean {
+        return vscode.workspace.getConfiguration('antigravity').get<boolean>('showRelatedBrains', true);
+    }
 
-            // Return the SAME object reference from cache (required for treeView.reveal() to work)
-            const cached = this.directoryNodeCache.get(folderPath);
-            if (cached) {
-                return cached;
+    private getTagChildren(tag: string, folders: BrainNode[]): BrainNode[] {
+        const prefix = tag ? tag + TAG_SEPARATOR : '';
+        const counts = collectTags(folders.map(f => ({ tags: f.metadata?.tags || [] })));
+
+        // Direct children only: `client/acme` under `client`, not `client/acme/web`
+        const subTags = Array.from(counts.keys())
+            .filter(t => t.startsWith(prefix) && !t.slice(prefix.length).includes(TAG_SEPARATOR))
+            .sort()
+            .map(t => {
+                const node = this.getTagNode(t);
+                node.metadata = { fileCount: counts.get(t) };
+                return node;
+            });
+
+        const tagNode = this.getTagNode(tag);
+        const brains = !tag ? [] : folders
+            .filter(f => (f.metadata?.tags || []).includes(tag))
+            .map(f => this.toShortcut(f, tagNode));
+
+        return [...subTags, ...brains];
+    }
+
+    private getTagNode(tag: string): BrainNode {
+        const id = `__brain_tag__:${tag}`;
+        let tagNode = this.groupNodeCache.get(id);
+        if (!tagNode) {
+            tagNode = {
+                id,
+                path: '',
+                name: tag ? tag.slice(tag.lastIndexOf(TAG_SEPARATOR) + 1) : 'Tags',
+                type: 'tag',
+                tag
+            };
+            this.groupNodeCache.set(id, tagNode);
+        }
+        return tagNode;
+    }
+
+    /**
+     * Turns the brains (across all roots) into directory nodes, plus loose files that sit
+     * directly in a root. Archived brains are returned separately.
+     */
+    private async collectBrains(nodes: BrainNode[], sourceId?: string): Promise<{ folders: BrainNode[]; archived: BrainNode[]; rootFiles: BrainNode[] }> {
+        const brains = (await this.brainManager.getBrains()).filter(b => !sourceId || b.source === sourceId);
+        const sorted = brains.map(brain => this.toDirectoryNode(brain)).sort((a, b) => {
+             // Sort folders: Pinned first → then status (active, blocked, done) → then lastUpdated desc → then name
+             const aPinned = a.metadata?.pinned === true ? 1 : 0;
+             const bPinned = b.metadata?.pinned === true ? 1 : 0;
+             if (aPinned !== bPinned) { return bPinned - aPinned; }
+             const statusA = BRAIN_STATUS_ORDER[a.metadata?.status || 'active'];
+             const statusB = BRAIN_STATUS_ORDER[b.metadata?.status || 'active'];
+             if (statusA !== statusB) { return statusA - statusB; }
+             const timeA = a.metadata?.lastUpdated || 0;
+             const timeB = b.metadata?.lastUpdated || 0;
+             if (timeA !== timeB) { return timeB - timeA; }
+             return a.name.localeCompare(b.name);
+        });
+
+        const rootFiles = nodes.filter(node => {
+            const location = this.brainManager.getLocation(node.path);
+            return location && !location.brainPath && (!sourceId || location.source.id === sourceId);
+        }).sort((a, b) => {
+            // Sort files by updatedAt desc, then name
+             const timeA = a.metadata?.updatedAt ? new Date(a.metadata.updatedAt).getTime() : 0;
+             const timeB = b.metadata?.updatedAt ? new Date(b.metadata.updatedAt).getTime() : 0;
+             if (timeA !== timeB) return timeB - timeA;
+             return a.name.localeCompare(b.name);
+        });
+
+        const folders = sorted.filter(f => f.metadata?.status !== 'archived');
+        const archived = sorted.filter(f => f.metadata?.status === 'archived');
+        return { folders, archived, rootFiles };
+    }
+
+    /**
+     * Immediate sub-folders (first) and artifacts of a folder inside a brain.
+     * A single-note brain simply contains itself.
+     */
+    private getFolderChildren(brain: Brain, folderPath: string): BrainNode[] {
+        const subFolders = new Map<string, BrainNode>();
+        const files: BrainNode[] = [];
+
+        for (const artifact of brain.artifacts) {
+            const relativePath = path.relative(folderPath, artifact.path);
+            if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+                continue;
             }
+            const segments = relativePath.split(path.sep);
+            if (segments.length === 1) {
+                files.push(artifact);
+            } else {
+                const subFolderPath = path.join(folderPath, segments[0]);
+                subFolders.set(subFolderPath, this.getFolderNode(subFolderPath, brain.source));
+            }
+        }
 
-            // Fallback: construct a node if cache miss (e.g. first call before getChildren)
-            let displayName = segments[0];
-            try {
-                const taskMdPath = path.join(folderPath, 'task.md');
-                if (fs.existsSync(taskMdPath)) {
-                    const content = fs.readFileSync(taskMdPath, 'utf8');
-                    const lines = content.split('\n');
-                    let inFrontmatter = false;
-                    for (let i = 0; i < lines.length; i++) {
-                        const line = lines[i].trim();
-                        if (i === 0 && line === '---') { inFrontmatter = true; continue; }
-                        if (inFrontmatter) { if (line === '---') inFrontmatter = false; continue; }
-                        if (line.startsWith('# ')) { displayName = line.substring(2).trim(); break; }
-                    }
-                }
-            } catch (_) {}
+        const folders = Array.from(subFolders.values()).sort((a, b) => a.name.localeCompare(b.name));
+        files.sort((a, b) => {
+             // Sort files by updatedAt desc, then name
+             const timeA = a.metadata?.updatedAt ? new Date(a.metadata.updatedAt).getTime() : 0;
+             const timeB = b.metadata?.updatedAt ? new Date(b.metadata.updatedAt).getTime() : 0;
+             if (timeA !== timeB) return timeB - timeA;
+             return a.name.localeCompare(b.name);
+        });
+        return [...folders, ...files];
+    }
 
-            const fallbackNode: BrainNode = {
+    private getFolderNode(folderPath: string, sourceId: string): BrainNode {
+        let folderNode = this.folderNodeCache.get(folderPath);
+        if (!folderNode) {
+            folderNode = {
                 id: folderPath,
                 path: folderPath,
-                name: displayName,
-                type: 'directory',
-                metadata: {}
+                name: path.basename(folderPath),
+                type: 'folder',
+                source: sourceId
             };
-            this.directoryNodeCache.set(folderPath, fallbackNode);
-            return fallbackNode;
+            this.folderNodeCache.set(folderPath, folderNode);
+        }
+        return folderNode;
+    }
+
+    private toDirectoryNode(brain: Brain): BrainNode {
+        // One node object per brain until the next refresh, however many sections list it
+        const cached = this.directoryNodeCache.get(brain.path);
+        if (cached) {
+            return cached;
+        }
+        const node: BrainNode = {
+            id: brain.path,
+            path: brain.path,
+            name: brain.title,
+            type: 'directory',
+            metadata: {
+                lastUpdated: brain.updatedAt || 0,
+                fileCount: brain.artifacts.length,
+                pinned: brain.pinned,
+                tags: brain.tags,
+                status: brain.status,
+                checklist: brain.checklist
+            },
+            source: brain.source
+        };
+        // Store in cache so getParent returns the exact same object reference
+        this.directoryNodeCache.set(brain.path, node);
+        return node;
+    }
+
+    /**
+     * Sources get their own section only when there is more than one root and the user
+     * hasn't asked for an interleaved list.
+     */
+    private isGroupedBySource(): boolean {
+        if (this.grouping !== 'none') {
+            return this.grouping === 'source';
+        }
+        const grouping = vscode.workspace.getConfiguration('antigravity').get<string>('rootGrouping', 'source');
+        return this.brainManager.sources.length > 1 && grouping === 'source';
+    }
+
+    private getSourceNode(sourceId: string): BrainNode {
+        let sourceNode = this.sourceNodeCache.get(sourceId);
+        if (!sourceNode) {
+            const source = this.brainManager.getSource(sourceId);
+            sourceNode = {
+                id: `__brain_source__:${sourceId}`,
+                path: source ? source.path : '',
+                name: source ? source.label : sourceId,
+                type: 'source',
+                source: sourceId
+            };
+            this.sourceNodeCache.set(sourceId, sourceNode);
+        }
+        return sourceNode;
+    }
+
+    /**
+     * Required for TreeView.reveal() — returns the parent node of the given element.
+     */
+    getParent(element: BrainNode): vscode.ProviderResult<BrainNode> {
+        if (element.type === 'summary' || element.type === 'source' || element.type === 'archive' || element.type === 'filter' || element.type === 'group') {
+            return undefined; // Top-level items have no parent
+        }
+        if (element.type === 'tag') {
+            if (!element.tag) {
+                return undefined; // The Tags section itself
+            }
+            const separator = element.tag.lastIndexOf(TAG_SEPARATOR);
+            return this.getTagNode(separator === -1 ? '' : element.tag.slice(0, separator));
+        }
+        if (element.type === 'directory' && element.parentId !== undefined) {
+            return this.groupNodeCache.get(element.parentId);
+        }
+        if (element.type === 'related') {
+            return this.getBrainNode(element.path);
+        }
+        if (element.type === 'checklistItem') {
+            // The closest less indented item above it, else the file itself
+            const items = this.getChecklistItems(element);
+            const item = this.getChecklistItem(element);
+            const index = item ? items.indexOf(item) : -1;
+            for (let i = index - 1; i >= 0; i--) {
+                if (items[i].indent < item!.indent) {
+                    return this.toChecklistNode(element.path, items[i]);
+                }
+            }
+            return this.brainManager.getBrainForPath(element.path)?.artifacts.find(a => a.path === element.path);
+        }
+        if (element.type === 'directory' && element.metadata?.status === 'archived') {
+            return this.archiveNode;
+        }
+        if (element.type === 'directory' && this.isGroupedByKey()) {
+            return this.getGroupNode(this.getGroupKeys(element)[0]);
         }
 
+        const location = this.brainManager.getLocation(element.path);
+        if (!location) {
+            return undefined;
+        }
+        const sourceParent = this.isGroupedBySource() ? this.getSourceNode(location.source.id) : undefined;
+
+        if (element.type === 'directory' || !location.brainPath) {
+            // Brains and loose root files hang off their source section (if any)
+            return sourceParent;
+        }
+
+        // Files and sub-folders nested deeper than the brain folder hang off a sub-folder node
+        const parentPath = path.dirname(element.path);
+        if (element.path !== location.brainPath && parentPath !== location.brainPath) {
+            return this.getFolderNode(parentPath, location.source.id);
+        }
+
+        const folderPath = location.brainPath;
+
+        // Return the SAME object reference from cache (required for treeView.reveal() to work)
+        const cached = this.directoryNodeCache.get(folderPath);
+        if (cached) {
+            return cached;
+        }
+
+        // Fallback: construct a node if cache miss (e.g. first call before getChildren)
+        const brain = this.brainManager.getBrain(folderPath);
+        if (brain) {
+            return this.toDirectoryNode(brain);
+        }
         return undefined;
     }
 
+    /**
+     * The brain's node in the main list (for reveal), if the brain exists.
+     */
+    getBrainNode(brainPath: string): BrainNode | undefined {
+        const brain = this.brainManager.getBrain(brainPath);
+        return brain ? this.toDirectoryNode(brain) : undefined;
+    }
+
     /**
      * Find a BrainNode by file path — used for TreeView.reveal().
      */
@@ -0,0 +1,153 @@
+import { BrainNode } from './types';
+import { getArtifactKind } from './ArtifactKinds';
+
+/**
+ * State of a Markdown checklist item: `- [ ]`, `- [/]` or `- [x]`.
+ */
+export type ChecklistState = 'todo' | 'inProgress' | 'done';
+
+export interface ChecklistItem {
+    line: number;           // 0-based line of the item
+    indent: number;         // Leading whitespace width (tabs count as 4)
+    state: ChecklistState;
+    text: string;
+}
+
+export interface ChecklistStats {
+    total: number;
+    done: number;
+    inProgress: number;
+}
+
+// `- [ ] item`, `* [x] item`, `1. [/] item`
+const ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX/])\]\s?(.*)$/;
+
+export const CHECKLIST_MARKS: Record<ChecklistState, string> = {
+    todo: ' ',
+    inProgress: '/',
+    done: 'x'
+};
+
+/**
+ * Whether an artifact is a task list: declared as one, or named like one (task.md).
+ */
+export function isTaskList(node: BrainNode): boolean {
+    const artifactType = node.metadata?.artifactType;
+    const isTask = artifactType === 'task' || (!artifactType && node.name.toLowerCase().includes('task'));
+    return isTask && getArtifactKind(node.path) === 'markdown';
+}
+
+/**
+ * Every checklist item of a Markdown document, in order. Items inside fenced code blocks are skipped.
+ */
+export function parseChecklist(content: string): ChecklistItem[] {
+    const items: ChecklistItem[] = [];
+    let fence: string | undefined;
+    content.split('\n').forEach((rawLine, index) => {
+        const line = rawLine.replace(/\r$/, '');
+        const fenceMatch = line.match(/^\s*(```|~~~)/);
+        if (fenceMatch) {
+            fence = fence === undefined ? fenceMatch[1] : fence === fenceMatch[1] ? undefined : fence;
+            return;
+        }
+        const match = fence === undefined ? line.match(ITEM_PATTERN) : null;
+        if (match) {
+            items.push({
+                line: index,
+                indent: match[1].replace(/\t/g, '    ').length,
+                state: match[2] === ' ' ? 'todo' : match[2] === '/' ? 'inProgress' : 'done',
+                text: match[3].trim()
+            });
+        }
+    });
+    return items;
+}
+
+export function countChecklist(items: ChecklistItem[]): ChecklistStats {
+    return {
+        total: items.length,
+        done: items.filter(i => i.state === 'done').length,
+        inProgress: items.filter(i => i.state === 'inProgress').length
+    };
+}
+
+/**
+ * Adds up the stats of several artifacts.
+ */
+export function sumChecklists(stats: ChecklistStats[]): ChecklistStats {
+    return stats.reduce((sum, s) => ({
+        total: sum.total + s.total,
+        done: sum.done + s.done,
+        inProgress: sum.inProgress + s.inProgress
+    }), { total: 0, done: 0, inProgress: 0 });
+}
+
+/**
+ * `7/12 ✓`, or undefined when there is no checklist.
+ */
+export function formatChecklistProgress(stats: ChecklistStats): string | undefined {
+    return stats.total > 0 ? `${stats.done}/${stats.total} ✓` : undefined;
+}
+
+/**
+ * The items directly under `parent` (or the top-level items): those more indented than it,
+ * up to the next item at its level or above.
+ */
+export function getChildItems(items: ChecklistItem[], parent?: ChecklistItem): ChecklistItem[] {
+    let start = 0;
+    let minIndent = -1;
+    if (parent) {
+        start = items.indexOf(parent) + 1;
+        minIndent = parent.indent;
+    }
+    const children: ChecklistItem[] = [];
+    let childIndent: number | undefined;
+    for (let i = start; i < items.length; i++) {
+        const item = items[i];
+        if (item.indent <= minIndent) {
+            break;
+        }
+        // The shallowest item seen so far sets the level; deeper ones belong to a sibling
+        if (childIndent === undefined || item.indent <= childIndent) {
+            childIndent = item.indent;
+            children.push(item);
+        }
+    }
+    return children;
+}
+
+/**
+ * Where `item` is now in `lines`: its recorded line if that still holds the same item, else
+ * the only line with the same text. -1 when the file changed too much to tell.
+ */
+export function findChecklistLine(lines: string[], item: ChecklistItem): number {
+    const sameItem = (line: string | undefined) => {
+        const match = line !== undefined ? line.replace(/\r$/, '').match(ITEM_PATTERN) : null;
+        return !!match && match[3].trim() === item.text;
+    };
+    if (sameItem(lines[item.line])) {
+        return item.line;
+    }
+    const candidates: number[] = [];
+    lines.forEach((line, index) => {
+        if (sameItem(line)) {
+            candidates.push(index);
+        }
+    });
+    return candidates.length === 1 ? candidates[0] : -1;
+}
+
+/**
+ * The checklist line with its box set to `state`, everything else untouched.
+ */
+export function setChecklistMark(line: string, state: ChecklistState): string {
+    return line.replace(/^(\s*(?:[-*+]|\d+[.)])\s+\[)[ xX/](\])/, `$1${CHECKLIST_MARKS[state]}$2`);
+}
+
+/**
+ * Whether an item has nested items.
+ */
+export function hasChildItems(items: ChecklistItem[], item: ChecklistItem): boolean {
+    const next = items[items.indexOf(item) + 1];
+    return !!next && next.indent > item.indent;
+}
@@ -2,21 +2,67 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
-import { BrainNode } from './types';
+import { BrainNode, BrainSource } from './types';
+import { BrainFileInfo, BrainFolderInfo, BrainSourceAdapter, getAdapter } from './adapters';
 
 export class FileSystemReader {
-    public rootPath: string; // Changed to public or add getter, but public for simplicity here
+    public readonly adapter: BrainSourceAdapter;
 
-    constructor(rootPath: string) {
-        this.rootPath = rootPath;
+    constructor(public readonly source: BrainSource) {
+        this.adapter = getAdapter(source.adapter);
+    }
+
+    public get rootPath(): string {
+        return this.source.path;
+    }
+
+    /**
+     * Root path with `~` expanded to the user's home directory.
+     */
+    public get expandedRootPath(): string {
+        return this.expandHomeDir(this.rootPath);
     }
 
     /**
-     * Scans the brain directory for Markdown files.
+     * Whether a path lies inside this reader's root.
      */
-    public async scan(): Promise<BrainNode[]> {
+    public contains(filePath: string): boolean {
+        const relativePath = path.relative(this.expandedRootPath, filePath);
+        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }
+
+    /**
+     * Whether a path is one of the files the source's layout tracks.
+     * Anything inside a hidden folder (.system_generated, .git) is ignored, like the scan glob does.
+     */
+    public isTracked(filePath: string): boolean {
+        const segments = path.relative(this.expandedRootPath, filePath).split(path.sep);
+        if (segments.some(s => s.startsWith('.') && s !== '..')) {
+            return false;
+        }
+        return this.adapter.isTracked(filePath);
+    }
+
+    /**
+     * Maps any tracked file (artifact, history version or sidecar) to the artifact it belongs to.
+     */
+    public classify(filePath: string): BrainFileInfo {
+        return this.adapter.classify(filePath);
+    }
+
+    /**
+     * Which brain a file belongs to, according to the source's layout.
+     */
+    public locateBrain(filePath: string): BrainFolderInfo | undefined {
+        return this.adapter.locateBrain(this.expandedRootPath, filePath);
+    }
+
+    /**
+     * Scans the brain directory (or a sub-directory of it) for artifacts.
+     */
+    public async scan(subPath?: string): Promise<BrainNode[]> {
         // Expand home directory if needed
-        const expandedPath = this.expandHomeDir(this.rootPath);
+        const expandedPath = subPath || this.expandedRootPath;
 
         if (!fs.existsSync(expandedPath)) {
             console.warn(`Brain path does not exist: ${expandedPath}`);
@@ -24,8 +70,8 @@ export class FileSystemReader {
         }
 
         return new Promise((resolve, reject) => {
-            // Find all .md files recursively
-            glob("**/*.md*", { cwd: expandedPath, absolute: true }, (err, files) => {
+            // Find all artifacts recursively
+            glob(this.adapter.scanPattern, { cwd: expandedPath, absolute: true, nodir: true }, (err, files) => {
                 if (err) {
                     return reject(err);
                 }
@@ -36,70 +82,97 @@ export class FileSystemReader {
 
                 // Group files by base name to handle .resolved versions
                 const nodeMap = new Map<string, BrainNode>();
+                const versions = new Map<string, number>();
 
                 files.forEach(filePath => {
-                    // Check if it's a resolved file
-                    // Patterns: file.md.resolved, file.md.resolved.0
-                    // Check if it's a resolved file OR a metadata file
-                    // Patterns: file.md.resolved, file.md.metadata.json
-                    const isResolved = filePath.includes('.resolved');
-                    const isMetadata = filePath.endsWith('.metadata.json');
-
-                    if (isMetadata) {
+                    const { basePath, kind, version } = this.classify(filePath);
+
+                    if (kind === 'metadata') {
                         return; // Skip metadata files as individual nodes, we process them with the main file
                     }
-                    
-                    let originalPath = filePath;
-                    if (isResolved) {
-                        // Extract base path: /path/to/file.md.resolved.1 -> /path/to/file.md
-                        originalPath = filePath.split('.resolved')[0];
-                    }
 
-                    if (!nodeMap.has(originalPath)) {
-                        nodeMap.set(originalPath, {
-                            id: originalPath,
-                            path: originalPath,
-                            name: path.basename(originalPath),
-                            type: 'file',
-                            resolvedVersions: []
-                        });
+                    if (!nodeMap.has(basePath)) {
+                        nodeMap.set(basePath, this.createNode(basePath));
                     }
 
-                    if (isResolved) {
-                        const node = nodeMap.get(originalPath);
-                        // Only include numbered .resolved.N files (skip unnumbered .resolved which is a duplicate of the latest)
-                        const isNumbered = /\.resolved\.\d+$/.test(filePath);
-                        if (node && node.resolvedVersions && isNumbered) {
-                            node.resolvedVersions.push(filePath);
-                        }
-                    } else {
-                         // Check if metadata exists for this file
-                         const metadataPath = originalPath + '.metadata.json';
-                         const node = nodeMap.get(originalPath);
-                         if (node && fs.existsSync(metadataPath)) {
-                             try {
-                                 const metadataContent = fs.readFileSync(metadataPath, 'utf8');
-                                 node.metadata = JSON.parse(metadataContent);
-                             } catch (e) {
-                                 console.warn(`Failed to parse metadata for ${originalPath}`, e);
-                             }
-                         }
+                    const node = nodeMap.get(basePath);
+                    // Only include numbered history files (skip unnumbered .resolved which is a duplicate of the latest)
+                    if (kind === 'history' && node && node.resolvedVersions) {
+                        node.resolvedVersions.push(filePath);
+                        versions.set(filePath, version || 0);
+                    } else if (kind === 'primary' && node) {
+                        node.metadata = this.adapter.readMetadata(basePath);
                     }
                 });
-                
-                // Start with values
+
+                // If we have file.md.resolved but NOT file.md, we still keep the node
                 const nodes = Array.from(nodeMap.values());
-                
-                // Filter out nodes that don't actually exist as primary files
-                // (In case we only have .resolved but no .md? Unlikely but possible)
-                // Actually, if we have file.md.resolved but NOT file.md, we should probably still show it?
-                // For now, let's keep all keys in the map.
+                nodes.forEach(node => this.sortVersions(node, versions));
 
                 resolve(nodes);
             });
         });
     }
 
+    /**
+     * Reads a single artifact (with its history versions and metadata) from disk.
+     * Returns undefined when neither the artifact nor any of its versions exist any more.
+     */
+    public async readNode(basePath: string): Promise<BrainNode | undefined> {
+        const dir = path.dirname(basePath);
+
+        let entries: string[];
+        try {
+            entries = await fs.promises.readdir(dir);
+        } catch (_) {
+            return undefined;
+        }
+
+        const node = this.createNode(basePath);
+        const versions = new Map<string, number>();
+        let found = false;
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry);
+            if (!this.isTracked(fullPath)) {
+                continue;
+            }
+            const info = this.classify(fullPath);
+            if (info.basePath !== basePath || info.kind === 'metadata') {
+                continue;
+            }
+
+            found = true;
+            if (info.kind === 'primary') {
+                node.metadata = this.adapter.readMetadata(basePath);
+            } else if (info.kind === 'history') {
+                node.resolvedVersions!.push(fullPath);
+                versions.set(fullPath, info.version || 0);
+            }
+        }
+
+        if (!found) {
+            return undefined;
+        }
+        this.sortVersions(node, versions);
+        return node;
+    }
+
+    private createNode(basePath: string): BrainNode {
+        return {
+            id: basePath,
+            path: basePath,
+            name: path.basename(basePath),
+            type: 'file',
+            resolvedVersions: [],
+            source: this.source.id
+        };
+    }
+
+    private sortVersions(node: BrainNode, versions: Map<string, number>): void {
+        // Order history numerically (.resolved.2 before .resolved.10)
+        node.resolvedVersions?.sort((a, b) => (versions.get(a) || 0) - (versions.get(b) || 0));
+    }
+
     private expandHomeDir(pathStr: string): string {
         if (pathStr.startsWith('~')) {
             return path.join(process.env.HOME || process.env.USERPROFILE || '', pathStr.slice(1));
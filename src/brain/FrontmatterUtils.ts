@@ -1,13 +1,28 @@
 import * as fs from 'fs';
+import { Document, isCollection, isMap, isNode, isScalar, parseDocument } from 'yaml';
 
+/**
+ * YAML frontmatter of a Markdown file. `pinned` and `tags` are normalized;
+ * every other key is passed through as parsed.
+ */
 export interface BrainFrontmatter {
     pinned?: boolean;
     tags?: string[];
+    [key: string]: unknown;
+}
+
+// Keep output close to hand-written YAML: no line folding, `[a, b]` rather than `[ a, b ]`
+const STRINGIFY_OPTIONS = { lineWidth: 0, flowCollectionPadding: false };
+
+interface FrontmatterBlock {
+    yaml: string;   // Text between the `---` fences
+    rest: string;   // Everything after the closing fence, starting with its line break
+    eol: string;
 }
 
 /**
  * Parse YAML frontmatter from a task.md file.
- * Returns { pinned, tags } if present, otherwise returns empty object.
+ * Returns an empty object when the file has none (or it can't be read).
  */
 export function parseFrontmatter(taskMdPath: string): BrainFrontmatter {
     try {
@@ -25,51 +40,35 @@ export function parseFrontmatter(taskMdPath: string): BrainFrontmatter {
  * Parse frontmatter from raw string content.
  */
 export function parseFrontmatterFromContent(content: string): BrainFrontmatter {
-    const result: BrainFrontmatter = {};
-    const lines = content.split('\n');
-
-    if (lines.length === 0 || lines[0].trim() !== '---') {
-        return result;
+    const block = splitFrontmatter(content);
+    if (!block) {
+        return {};
     }
 
-    let endIndex = -1;
-    for (let i = 1; i < lines.length; i++) {
-        if (lines[i].trim() === '---') {
-            endIndex = i;
-            break;
-        }
+    const doc = parseDocument(block.yaml);
+    if (doc.errors.length > 0) {
+        console.warn(`Invalid YAML frontmatter: ${doc.errors[0].message}`);
+        return {};
     }
 
-    if (endIndex === -1) {
-        return result;
+    const data = doc.toJS();
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return {};
     }
 
-    const frontmatterLines = lines.slice(1, endIndex);
-    for (const line of frontmatterLines) {
-        // Match `pinned: true` or `pinned: false`
-        const pinnedMatch = line.match(/^pinned:\s*(true|false)\s*$/i);
-        if (pinnedMatch) {
-            result.pinned = pinnedMatch[1].toLowerCase() === 'true';
-            continue;
-        }
-
-        // Match `tags: [tag1, tag2]` (inline array)
-        const tagsInlineMatch = line.match(/^tags:\s*\[([^\]]*)\]\s*$/);
-        if (tagsInlineMatch) {
-            const tagStr = tagsInlineMatch[1];
-            result.tags = tagStr
-                .split(',')
-                .map(t => t.trim().replace(/^['"]|['"]$/g, ''))
-                .filter(t => t.length > 0);
-        }
+    const result: BrainFrontmatter = { ...data };
+    if (data.pinned !== undefined) {
+        result.pinned = data.pinned === true;
+    }
+    if (data.tags !== undefined) {
+        result.tags = normalizeTags(data.tags);
     }
-
     return result;
 }
 
 /**
  * Update frontmatter fields in a task.md file.
- * Merges updates into existing frontmatter or creates a new frontmatter block.
+ * Only the given keys are touched; the rest of the file is kept as written.
  */
 export function updateFrontmatter(taskMdPath: string, updates: Partial<BrainFrontmatter>): void {
     let content = '';
@@ -85,65 +84,129 @@ export function updateFrontmatter(taskMdPath: string, updates: Partial<BrainFron
 
 /**
  * Update frontmatter fields in a raw content string.
+ * Keys set to `undefined`, `pinned: false` and empty `tags` are removed; other keys,
+ * comments and list styles are preserved. Throws if the existing frontmatter is not
+ * valid YAML rather than overwriting it.
  * Exported for testability.
  */
 export function updateFrontmatterInContent(content: string, updates: Partial<BrainFrontmatter>): string {
-    const lines = content.split('\n');
-    const hasFrontmatter = lines.length > 0 && lines[0].trim() === '---';
-
-    let existingMeta: BrainFrontmatter = {};
-    let bodyStartIndex = 0;
-
-    if (hasFrontmatter) {
-        let endIndex = -1;
-        for (let i = 1; i < lines.length; i++) {
-            if (lines[i].trim() === '---') {
-                endIndex = i;
-                break;
-            }
-        }
+    const block = splitFrontmatter(content);
+    const eol = block ? block.eol : (content.includes('\r\n') ? '\r\n' : '\n');
 
-        if (endIndex !== -1) {
-            existingMeta = parseFrontmatterFromContent(content);
-            bodyStartIndex = endIndex + 1;
+    const doc = block ? parseDocument(block.yaml) : new Document({});
+    if (doc.errors.length > 0) {
+        throw new Error(`Frontmatter is not valid YAML: ${doc.errors[0].message}`);
+    }
+    if (!isMap(doc.contents)) {
+        if (doc.contents !== null) {
+            throw new Error('Frontmatter is not a key/value map');
         }
+        doc.contents = doc.createNode({});
     }
 
-    // Merge updates
-    const merged: BrainFrontmatter = { ...existingMeta, ...updates };
+    for (const key of Object.keys(updates)) {
+        const value = updates[key];
+        const isEmpty = value === undefined
+            || (key === 'pinned' && value === false)
+            || (Array.isArray(value) && value.length === 0);
+        if (isEmpty) {
+            deleteKey(doc, key);
+            continue;
+        }
 
-    // Clean up: if pinned is false, remove it entirely
-    if (merged.pinned === false) {
-        delete merged.pinned;
+        const node = doc.createNode(value);
+        const existing = doc.get(key, true);
+        if (isCollection(node)) {
+            // Keep the list style the file already uses; new lists default to `[a, b]`
+            node.flow = isCollection(existing) ? existing.flow === true : true;
+        }
+        doc.set(key, node);
     }
-    // Clean up: if tags is empty array, remove it
-    if (merged.tags && merged.tags.length === 0) {
-        delete merged.tags;
+
+    const hasKeys = isMap(doc.contents) && doc.contents.items.length > 0;
+    if (!hasKeys && !doc.commentBefore && !doc.comment) {
+        // No metadata to store — remove frontmatter entirely
+        const body = block ? block.rest : content;
+        return body.replace(/^(\r?\n)+/, ''); // trim leading newlines from body
     }
 
-    // Build new frontmatter block
-    const body = hasFrontmatter
-        ? lines.slice(bodyStartIndex).join('\n')
-        : content;
+    // Comments only — print them as-is rather than an empty `{}`
+    let yaml = hasKeys
+        ? doc.toString(STRINGIFY_OPTIONS)
+        : [doc.commentBefore, doc.comment].filter(c => c).join('\n').split('\n').map(c => `#${c}\n`).join('');
+    if (eol !== '\n') {
+        yaml = yaml.replace(/\r?\n/g, eol);
+    }
+    const fmBlock = `---${eol}${yaml}---`;
 
-    const hasMeaningfulMeta = merged.pinned !== undefined || (merged.tags && merged.tags.length > 0);
+    if (block) {
+        return fmBlock + block.rest;
+    }
+    return fmBlock + eol + content;
+}
 
-    if (!hasMeaningfulMeta) {
-        // No metadata to store — remove frontmatter entirely
-        return body.replace(/^\n+/, ''); // trim leading newlines from body
+/**
+ * Locates a leading `---` fenced block.
+ */
+function splitFrontmatter(content: string): FrontmatterBlock | undefined {
+    const firstLineEnd = content.indexOf('\n');
+    if (firstLineEnd === -1 || content.slice(0, firstLineEnd).trim() !== '---') {
+        return undefined;
     }
+    const eol = content[firstLineEnd - 1] === '\r' ? '\r\n' : '\n';
 
-    const fmLines: string[] = ['---'];
-    if (merged.pinned) {
-        fmLines.push('pinned: true');
+    let lineStart = firstLineEnd + 1;
+    while (lineStart <= content.length) {
+        let lineEnd = content.indexOf('\n', lineStart);
+        if (lineEnd === -1) {
+            lineEnd = content.length;
+        }
+        if (content.slice(lineStart, lineEnd).trim() === '---') {
+            // The closing fence's own line break belongs to `rest`
+            const fenceEnd = content[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+            return {
+                yaml: content.slice(firstLineEnd + 1, lineStart),
+                rest: content.slice(fenceEnd),
+                eol
+            };
+        }
+        lineStart = lineEnd + 1;
     }
-    if (merged.tags && merged.tags.length > 0) {
-        fmLines.push(`tags: [${merged.tags.join(', ')}]`);
+    return undefined;
+}
+
+/**
+ * Removes a top-level key, handing a comment written above it on to whatever follows.
+ */
+function deleteKey(doc: Document, key: string): void {
+    if (!isMap(doc.contents)) {
+        return;
+    }
+    const items = doc.contents.items;
+    const index = items.findIndex(pair => (isScalar(pair.key) ? pair.key.value : pair.key) === key);
+    if (index === -1) {
+        return;
     }
-    fmLines.push('---');
 
-    const fmBlock = fmLines.join('\n');
-    const bodyTrimmed = body.startsWith('\n') ? body : '\n' + body;
+    const [removed] = items.splice(index, 1);
+    const comment = isNode(removed.key) ? removed.key.commentBefore : undefined;
+    if (!comment) {
+        return;
+    }
+    const next = items[index];
+    if (next && isNode(next.key)) {
+        next.key.commentBefore = next.key.commentBefore ? `${comment}\n${next.key.commentBefore}` : comment;
+    } else if (index === 0) {
+        doc.commentBefore = doc.commentBefore ? `${doc.commentBefore}\n${comment}` : comment;
+    } else {
+        doc.comment = doc.comment ? `${doc.comment}\n${comment}` : comment;
+    }
+}
 
-    return fmBlock + bodyTrimmed;
+function normalizeTags(tags: unknown): string[] {
+    const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : [tags];
+    return list
+        .filter(t => t !== null && t !== undefined && typeof t !== 'object')
+        .map(t => String(t).trim())
+        .filter(t => t.length > 0);
 }
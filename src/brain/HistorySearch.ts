@@ -0,0 +1,58 @@
+import { BrainNode } from './types';
+
+/**
+ * One version of an artifact: a `.resolved.N` history file, or the current file.
+ */
+export interface HistoryVersion {
+    path: string;
+    label: string;  // `Version 3` or `Current`
+}
+
+/**
+ * A stretch of versions a matching line lived in.
+ */
+export interface LineSpan {
+    text: string;           // The line, trimmed
+    introducedIn: number;   // Index of the first version containing it
+    removedIn?: number;     // Index of the first later version without it; undefined while still present
+}
+
+/**
+ * The versions of an artifact, oldest first and the current file (when it exists) last.
+ */
+export function getHistoryVersions(node: BrainNode, currentExists: boolean): HistoryVersion[] {
+    const versions = (node.resolvedVersions || []).map((versionPath, i) => ({ path: versionPath, label: `Version ${i + 1}` }));
+    if (currentExists) {
+        versions.push({ path: node.path, label: 'Current' });
+    }
+    return versions;
+}
+
+/**
+ * Follows every distinct matching line through the versions (`versionLines[i]` are the lines of
+ * version `i`) and reports when it appeared and disappeared. A line that comes back later gets
+ * a span per appearance.
+ */
+export function traceLineHistory(versionLines: string[][], matches: (line: string) => boolean): LineSpan[] {
+    const spans: LineSpan[] = [];
+    const open = new Map<string, LineSpan>();
+
+    versionLines.forEach((lines, index) => {
+        const present = new Set(lines.filter(matches).map(l => l.trim()).filter(l => l.length > 0));
+
+        open.forEach((span, text) => {
+            if (!present.has(text)) {
+                span.removedIn = index;
+                open.delete(text);
+            }
+        });
+        present.forEach(text => {
+            if (!open.has(text)) {
+                const span: LineSpan = { text, introducedIn: index };
+                open.set(text, span);
+                spans.push(span);
+            }
+        });
+    });
+    return spans;
+}
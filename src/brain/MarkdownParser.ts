@@ -1,6 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { BrainNode, BrainLink } from './types';
+import { isTextArtifact } from './ArtifactKinds';
+
+/**
+ * Link targets found in a single file, before they are matched against the known nodes.
+ */
+export interface LinkTargets {
+    wiki: string[];   // [[Page Name]] targets (alias stripped)
+    md: string[];     // Absolute paths of relative [Title](path) targets
+}
 
 export class MarkdownParser {
     
@@ -8,20 +17,94 @@ export class MarkdownParser {
      * Parses a list of nodes to find links between them.
      */
     public async parseLinks(nodes: BrainNode[]): Promise<BrainLink[]> {
+        const targets = new Map<string, LinkTargets>();
+
+        for (const node of nodes) {
+            const nodeTargets = await this.parseNodeLinks(node);
+            if (nodeTargets) {
+                targets.set(node.id, nodeTargets);
+            }
+        }
+
+        return this.resolveLinks(nodes, targets);
+    }
+
+    /**
+     * Reads one node from disk and extracts its link targets.
+     */
+    public async parseNodeLinks(node: BrainNode): Promise<LinkTargets | undefined> {
+        if (!isTextArtifact(node.path)) return undefined; // Images and other binaries have no links
+        const content = await this.readFile(node.path);
+        if (!content) return undefined;
+        return this.extractLinkTargets(node.path, content);
+    }
+
+    /**
+     * Extracts the raw link targets of one file. Kept separate from resolution so the
+     * index can re-parse a single changed file and re-resolve against the current node set.
+     */
+    public extractLinkTargets(filePath: string, content: string): LinkTargets {
+        const targets: LinkTargets = { wiki: [], md: [] };
+
+        // 1. Wiki Links [[Page Name]]
+        const wikiRegex = /\[\[([^\]]+)\]\]/g;
+        let match;
+        while ((match = wikiRegex.exec(content)) !== null) {
+            targets.wiki.push(match[1].split('|')[0].trim()); // Handle [[Name|Alias]]
+        }
+
+        // 2. Markdown Links [Title](path)
+        const mdRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
+        while ((match = mdRegex.exec(content)) !== null) {
+            const linkPath = match[2];
+            // Resolve relative path
+            if (!linkPath.startsWith('http')) {
+               try {
+                    targets.md.push(path.resolve(path.dirname(filePath), linkPath));
+               } catch (e) {
+                   // Ignore invalid paths
+               }
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * Absolute paths of the files a document points at with `file://` URIs — how the
+     * assistant references the code it worked on.
+     */
+    public extractFileReferences(content: string): string[] {
+        const references = new Set<string>();
+        const fileUriRegex = /file:\/\/(\/[^\s)\]>"'`]+)/g;
+        let match;
+        while ((match = fileUriRegex.exec(content)) !== null) {
+            let filePath: string;
+            try {
+                filePath = decodeURIComponent(match[1].split(/[#?]/)[0]);
+            } catch (e) {
+                continue; // Malformed escape
+            }
+            // `file:///c:/repo` -> `c:/repo`
+            references.add(/^\/[A-Za-z]:/.test(filePath) ? path.normalize(filePath.slice(1)) : path.normalize(filePath));
+        }
+        return Array.from(references);
+    }
+
+    /**
+     * Matches extracted link targets against the given nodes.
+     */
+    public resolveLinks(nodes: BrainNode[], targets: Map<string, LinkTargets>): BrainLink[] {
         const links: BrainLink[] = [];
         const nodeMap = new Map(nodes.map(n => [n.name, n.id])); // Map Name -> ID for WikiLinks
+        const pathMap = new Map(nodes.map(n => [n.path, n.id]));
 
         for (const node of nodes) {
-            const content = await this.readFile(node.path);
-            if (!content) continue;
-
-            // 1. Wiki Links [[Page Name]]
-            const wikiRegex = /\[\[([^\]]+)\]\]/g;
-            let match;
-            while ((match = wikiRegex.exec(content)) !== null) {
-                const targetName = match[1].split('|')[0].trim(); // Handle [[Name|Alias]]
+            const nodeTargets = targets.get(node.id);
+            if (!nodeTargets) continue;
+
+            for (const targetName of nodeTargets.wiki) {
                 const targetId = nodeMap.get(targetName + '.md') || nodeMap.get(targetName);
-                
                 if (targetId) {
                     links.push({
                         source: node.id,
@@ -31,26 +114,15 @@ export class MarkdownParser {
                 }
             }
 
-            // 2. Markdown Links [Title](path)
-            const mdRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
-            while ((match = mdRegex.exec(content)) !== null) {
-                const linkPath = match[2];
-                // Resolve relative path
-                if (!linkPath.startsWith('http')) {
-                   try {
-                        const absolutePath = path.resolve(path.dirname(node.path), linkPath);
-                        // Check if this path exists in our nodes
-                        const targetNode = nodes.find(n => n.path === absolutePath);
-                        if (targetNode) {
-                             links.push({
-                                source: node.id,
-                                target: targetNode.id,
-                                type: 'mdlink'
-                            });
-                        }
-                   } catch (e) {
-                       // Ignore invalid paths
-                   }
+            for (const absolutePath of nodeTargets.md) {
+                // Check if this path exists in our nodes
+                const targetId = pathMap.get(absolutePath);
+                if (targetId) {
+                    links.push({
+                        source: node.id,
+                        target: targetId,
+                        type: 'mdlink'
+                    });
                 }
             }
         }
@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrainFrontmatter, parseFrontmatterFromContent } from './FrontmatterUtils';
+import { LinkTargets, MarkdownParser } from './MarkdownParser';
+import { getArtifactKind, isTextArtifact } from './ArtifactKinds';
+import { parseMarkdownTitle } from './adapters/MarkdownTitle';
+import { tokenize } from './SearchIndex';
+import { ChecklistItem, ChecklistStats, countChecklist, parseChecklist } from './Checklist';
+
+// Bump whenever ArtifactSummary changes shape — older cache files are then discarded
+const CACHE_VERSION = 6;
+const SAVE_DELAY_MS = 5000;
+const PREVIEW_LINES = 30;
+const MAX_PARSE_BYTES = 2 * 1024 * 1024; // Larger files are indexed but not parsed
+
+/**
+ * Everything derived from an artifact's content.
+ */
+export interface ArtifactSummary {
+    title?: string;                 // First H1 (Markdown only)
+    frontmatter: BrainFrontmatter;  // Markdown only
+    links: LinkTargets;
+    fileReferences: string[];       // Files it links to with file:// URIs (absolute paths)
+    checklist: ChecklistStats;
+    checklistItems: ChecklistItem[]; // Markdown only
+    terms: { [word: string]: number }; // Lower-cased word -> occurrences, for content similarity and search
+    titleTerms: { [word: string]: number };   // Same for the H1 and the file name (search only)
+    headingTerms: { [word: string]: number }; // Same for the headings (search only)
+    preview: string;                // First lines, for tooltips
+    lineCount: number;
+}
+
+interface ScanCacheEntry {
+    mtime: number;
+    size: number;
+    summary: ArtifactSummary;
+}
+
+interface ScanCacheFile {
+    version: number;
+    entries: { [filePath: string]: ScanCacheEntry };
+}
+
+/**
+ * Parsed artifact summaries keyed by path, valid while the file's mtime and size are unchanged.
+ *
+ * Persisted to the extension's global storage so a new session only re-reads files
+ * that changed since the last one.
+ */
+export class ScanCache implements vscode.Disposable {
+    private entries = new Map<string, ScanCacheEntry>();
+    private loading: Promise<void> | undefined;
+    private dirty = false;
+    private saveTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * @param storagePath JSON file to persist to; omit for an in-memory cache.
+     */
+    constructor(private parser: MarkdownParser, private storagePath?: string) {}
+
+    /**
+     * Loads the persisted cache. Safe to call repeatedly.
+     */
+    public load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.readFromDisk();
+        }
+        return this.loading;
+    }
+
+    /**
+     * Returns the summary of a text artifact, re-parsing it only if it changed on disk.
+     * Undefined for binaries, oversized and unreadable files.
+     */
+    public async getSummary(filePath: string): Promise<ArtifactSummary | undefined> {
+        if (!isTextArtifact(filePath)) {
+            return undefined;
+        }
+        await this.load();
+
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(filePath);
+        } catch (_) {
+            this.delete(filePath);
+            return undefined;
+        }
+
+        const cached = this.entries.get(filePath);
+        if (cached && cached.mtime === stat.mtimeMs && cached.size === stat.size) {
+            return cached.summary;
+        }
+        if (stat.size > MAX_PARSE_BYTES) {
+            this.delete(filePath);
+            return undefined;
+        }
+
+        let content: string;
+        try {
+            content = await fs.promises.readFile(filePath, 'utf8');
+        } catch (e) {
+            console.warn(`Failed to read file: ${filePath}`, e);
+            return undefined;
+        }
+
+        const summary = this.summarize(filePath, content);
+        this.entries.set(filePath, { mtime: stat.mtimeMs, size: stat.size, summary });
+        this.markDirty();
+        return summary;
+    }
+
+    /**
+     * Drops entries of files that no longer exist (everything not in `filePaths`).
+     */
+    public retain(filePaths: Set<string>): void {
+        for (const filePath of Array.from(this.entries.keys())) {
+            if (!filePaths.has(filePath)) {
+                this.delete(filePath);
+            }
+        }
+    }
+
+    public delete(filePath: string): void {
+        if (this.entries.delete(filePath)) {
+            this.markDirty();
+        }
+    }
+
+    public dispose(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        // Last chance to persist — the extension host does not wait for async work here
+        if (this.dirty && this.storagePath) {
+            try {
+                fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
+                fs.writeFileSync(this.storagePath, this.serialize(), 'utf8');
+                this.dirty = false;
+            } catch (e) {
+                console.warn('Failed to save scan cache', e);
+            }
+        }
+    }
+
+    private summarize(filePath: string, content: string): ArtifactSummary {
+        const isMarkdown = getArtifactKind(filePath) === 'markdown';
+        const lines = content.split('\n');
+
+        const checklistItems = isMarkdown ? parseChecklist(content) : [];
+        const title = isMarkdown ? parseMarkdownTitle(content) : undefined;
+        // `implementation_plan.md` -> `implementation`, `plan`
+        const fileName = path.basename(filePath, path.extname(filePath)).replace(/[_.-]+/g, ' ');
+
+        return {
+            title,
+            frontmatter: isMarkdown ? parseFrontmatterFromContent(content) : {},
+            links: this.parser.extractLinkTargets(filePath, content),
+            fileReferences: this.parser.extractFileReferences(content),
+            checklist: countChecklist(checklistItems),
+            checklistItems,
+            terms: countTerms(content),
+            titleTerms: countTerms(`${title || ''} ${fileName}`),
+            headingTerms: isMarkdown ? countTerms(lines.filter(l => /^#{1,6}\s/.test(l)).join('\n')) : {},
+            preview: lines.slice(0, PREVIEW_LINES).join('\n'),
+            lineCount: lines.length
+        };
+    }
+
+    private markDirty(): void {
+        this.dirty = true;
+        if (!this.storagePath || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.writeToDisk();
+        }, SAVE_DELAY_MS);
+    }
+
+    private async readFromDisk(): Promise<void> {
+        if (!this.storagePath) {
+            return;
+        }
+        try {
+            const data: ScanCacheFile = JSON.parse(await fs.promises.readFile(this.storagePath, 'utf8'));
+            if (data.version !== CACHE_VERSION || !data.entries) {
+                return; // Written by an older release — start over
+            }
+            // Anything parsed before the load finished is newer than the file
+            for (const filePath of Object.keys(data.entries)) {
+                if (!this.entries.has(filePath)) {
+                    this.entries.set(filePath, data.entries[filePath]);
+                }
+            }
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.warn('Failed to load scan cache, rebuilding it', e);
+            }
+        }
+    }
+
+    private async writeToDisk(): Promise<void> {
+        if (!this.storagePath || !this.dirty) {
+            return;
+        }
+        this.dirty = false;
+        try {
+            await fs.promises.mkdir(path.dirname(this.storagePath), { recursive: true });
+            await fs.promises.writeFile(this.storagePath, this.serialize(), 'utf8');
+        } catch (e) {
+            console.warn('Failed to save scan cache', e);
+        }
+    }
+
+    private serialize(): string {
+        const data: ScanCacheFile = { version: CACHE_VERSION, entries: {} };
+        for (const [filePath, entry] of this.entries) {
+            data.entries[filePath] = entry;
+        }
+        return JSON.stringify(data);
+    }
+}
+
+function countTerms(content: string): { [word: string]: number } {
+    // No prototype, so words like `constructor` are counted like any other
+    const counts: { [word: string]: number } = Object.create(null);
+    for (const word of tokenize(content)) {
+        counts[word] = (counts[word] || 0) + 1;
+    }
+    return counts;
+}
@@ -0,0 +1,226 @@
+import { ArtifactSummary } from './ScanCache';
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// A hit in the title (H1 or file name) counts like this many hits in the body; same for headings
+const TITLE_WEIGHT = 5;
+const HEADING_WEIGHT = 2;
+
+// Query words this long also match longer words they start with (`auth` -> `authentication`), at a discount
+export const MIN_PREFIX_LENGTH = 3;
+const PREFIX_WEIGHT = 0.5;
+
+const WORD_PATTERN = /[A-Za-z0-9_\u00c0-\uffff]+/g;
+
+/**
+ * Words of `text`, in order — lower-cased unless `preserveCase` is set.
+ */
+export function tokenize(text: string, preserveCase: boolean = false): string[] {
+    return (preserveCase ? text : text.toLowerCase()).match(WORD_PATTERN) || [];
+}
+
+/**
+ * Words of `text` with where they start, case preserved.
+ */
+export function wordRanges(text: string): { word: string; start: number }[] {
+    const pattern = new RegExp(WORD_PATTERN.source, 'g');
+    const ranges: { word: string; start: number }[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        ranges.push({ word: match[0], start: match.index });
+    }
+    return ranges;
+}
+
+/**
+ * Whether a word satisfies a query word: equal, or — when `prefix` is set and the
+ * query word is long enough — starting with it.
+ */
+export function wordMatches(word: string, term: string, prefix: boolean = true): boolean {
+    return word === term || (prefix && term.length >= MIN_PREFIX_LENGTH && word.startsWith(term));
+}
+
+/**
+ * Free-text part of a search: loose words plus phrases whose words must appear in that order.
+ * Every word (phrase words included) is required. Words may be in any case; the index ignores it.
+ */
+export interface TextQuery {
+    terms: string[];
+    phrases: string[][];
+}
+
+export interface ScoredDocument {
+    filePath: string;
+    score: number;
+}
+
+interface IndexedDocument {
+    summary: ArtifactSummary;           // What it was built from
+    length: number;                     // Words in the body
+    counts: Map<string, number>;        // Body word -> occurrences
+    titleCounts: Map<string, number>;   // Words of the H1 and the file name
+    headingCounts: Map<string, number>;
+}
+
+/**
+ * Inverted full-text index of the searchable artifacts, ranked with BM25.
+ *
+ * Built from the artifacts' cached summaries rather than the files, so nothing is read here:
+ * `sync()` re-indexes the files whose summary was replaced since (their content changed),
+ * and drops files that are gone. Files without a summary (too large to parse) are left out.
+ */
+export class SearchIndex {
+    private documents = new Map<string, IndexedDocument>();
+    private postings = new Map<string, Set<string>>(); // Word -> files containing it (any field)
+    private totalLength = 0;
+
+    constructor(private getSummary: (filePath: string) => ArtifactSummary | undefined) {}
+
+    /**
+     * Brings the index in line with `filePaths`: the complete set of searchable files.
+     */
+    public sync(filePaths: string[]): void {
+        const wanted = new Set(filePaths);
+        for (const filePath of Array.from(this.documents.keys())) {
+            if (!wanted.has(filePath)) {
+                this.remove(filePath);
+            }
+        }
+        for (const filePath of filePaths) {
+            const summary = this.getSummary(filePath);
+            if (!summary) {
+                this.remove(filePath);
+            } else if (this.documents.get(filePath)?.summary !== summary) {
+                this.add(filePath, summary);
+            }
+        }
+    }
+
+    /**
+     * Files containing every query word, best match first. Phrases are not checked here, as word
+     * positions are not kept; callers do that on the lines they read anyway.
+     * Restricted to `candidates` when given; `prefix: false` only matches whole words.
+     */
+    public search(textQuery: TextQuery, candidates?: Set<string>, prefix: boolean = true): ScoredDocument[] {
+        const terms = Array.from(new Set(textQuery.terms.map(t => t.toLowerCase())));
+        if (terms.length === 0 || this.documents.size === 0) {
+            return [];
+        }
+
+        // Each query word stands for itself and, if long enough, the words it is a prefix of
+        const expansions = terms.map(term => this.expand(term, prefix));
+        if (expansions.some(e => e.size === 0)) {
+            return [];
+        }
+
+        // Files matching every query word
+        let matches: Set<string> | undefined;
+        for (const expansion of expansions) {
+            const files = new Set<string>();
+            expansion.forEach((_, word) => this.postings.get(word)!.forEach(f => {
+                if ((!matches || matches.has(f)) && (!candidates || candidates.has(f))) {
+                    files.add(f);
+                }
+            }));
+            matches = files;
+        }
+
+        const averageLength = this.totalLength / this.documents.size || 1;
+        const results: ScoredDocument[] = [];
+        for (const filePath of Array.from(matches || [])) {
+            const doc = this.documents.get(filePath)!;
+            let score = 0;
+            for (const expansion of expansions) {
+                expansion.forEach((weight, word) => {
+                    const tf = (doc.counts.get(word) || 0)
+                        + TITLE_WEIGHT * (doc.titleCounts.get(word) || 0)
+                        + HEADING_WEIGHT * (doc.headingCounts.get(word) || 0);
+                    if (tf === 0) {
+                        return;
+                    }
+                    const df = this.postings.get(word)!.size;
+                    const idf = Math.log(1 + (this.documents.size - df + 0.5) / (df + 0.5));
+                    score += weight * idf * tf * (K1 + 1) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+                });
+            }
+            results.push({ filePath, score });
+        }
+        return results.sort((a, b) => b.score - a.score);
+    }
+
+    private add(filePath: string, summary: ArtifactSummary): void {
+        this.remove(filePath);
+
+        const counts = toMap(summary.terms);
+        let length = 0;
+        counts.forEach(count => { length += count; });
+        const doc: IndexedDocument = {
+            summary,
+            length,
+            counts,
+            titleCounts: toMap(summary.titleTerms),
+            headingCounts: toMap(summary.headingTerms)
+        };
+        this.documents.set(filePath, doc);
+        this.totalLength += length;
+        this.wordsOf(doc).forEach(word => {
+            let files = this.postings.get(word);
+            if (!files) {
+                files = new Set();
+                this.postings.set(word, files);
+            }
+            files.add(filePath);
+        });
+    }
+
+    private remove(filePath: string): void {
+        const doc = this.documents.get(filePath);
+        if (!doc) {
+            return;
+        }
+        this.documents.delete(filePath);
+        this.totalLength -= doc.length;
+        this.wordsOf(doc).forEach(word => {
+            const files = this.postings.get(word);
+            if (files) {
+                files.delete(filePath);
+                if (files.size === 0) {
+                    this.postings.delete(word);
+                }
+            }
+        });
+    }
+
+    private wordsOf(doc: IndexedDocument): Set<string> {
+        const words = new Set<string>();
+        doc.counts.forEach((_, w) => words.add(w));
+        doc.titleCounts.forEach((_, w) => words.add(w));
+        doc.headingCounts.forEach((_, w) => words.add(w));
+        return words;
+    }
+
+    /**
+     * Indexed words a query word matches, with the weight of each.
+     */
+    private expand(term: string, prefix: boolean): Map<string, number> {
+        const words = new Map<string, number>();
+        if (this.postings.has(term)) {
+            words.set(term, 1);
+        }
+        if (prefix && term.length >= MIN_PREFIX_LENGTH) {
+            this.postings.forEach((_, word) => {
+                if (word !== term && wordMatches(word, term)) {
+                    words.set(word, PREFIX_WEIGHT);
+                }
+            });
+        }
+        return words;
+    }
+}
+
+// Own keys only — summaries read back from the cache file are plain objects
+function toMap(counts: { [word: string]: number }): Map<string, number> {
+    return new Map(Object.keys(counts).map(word => [word, counts[word]] as [string, number]));
+}
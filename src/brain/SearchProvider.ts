@@ -1,84 +1,144 @@
+import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { BrainManager } from './BrainManager';
+import { ArtifactType, Brain, BrainNode, BrainStatus } from './types';
+import { SearchIndex, tokenize, wordMatches } from './SearchIndex';
+import { BrainSearchQuery, isEmptyQuery } from './SearchQuery';
+import { BrainFilter, matchesFilter } from './BrainFilter';
+import { getHistoryVersions, HistoryVersion, LineSpan, traceLineHistory } from './HistorySearch';
 
 export interface SearchResult {
     filePath: string;
+    brainPath: string;
     brainName: string;
+    sourceLabel: string;
     fileName: string;
     matchLine: string;
     lineNumber: number;
     matchType: 'content' | 'filename';
+    artifactType?: ArtifactType;
+    brainStatus: BrainStatus;
+    score: number;      // Relevance; results are sorted by it
+    contextBefore?: string[];   // Content matches: the lines around the match
+    contextAfter?: string[];
 }
 
-export class SearchProvider {
-    constructor(private rootPath: string) {}
+/**
+ * A line found in a file's history, with the versions it appeared in and was removed in.
+ */
+export interface HistorySearchResult extends LineSpan {
+    filePath: string;
+    fileName: string;
+    brainName: string;
+    sourceLabel: string;
+    brainStatus: BrainStatus;
+    node: BrainNode;
+    versions: HistoryVersion[];     // Oldest first; `introducedIn` / `removedIn` index into it
+}
+
+export interface SearchFilters {
+    artifactTypes?: ArtifactType[]; // Only files whose sidecar declares one of these types
+    statuses?: BrainStatus[];       // Only brains with one of these statuses
+}
+
+interface FileMatch {
+    fileName: boolean;                          // The file name itself matches
+    lines: { index: number; text: string }[];   // Matching lines to show
+}
+
+// Recently updated brains rank a little higher: up to +50%, halving every two weeks
+const RECENCY_BOOST = 0.5;
+const RECENCY_HALF_LIFE_DAYS = 14;
+// Matching lines shown per file
+const MAX_LINES_PER_FILE = 3;
+// Lines of context kept around content matches
+const CONTEXT_LINES = 2;
+
+export class SearchProvider implements vscode.Disposable {
+    private index: SearchIndex;
+    // File lines keyed by path, dropped whenever the index reports a change to the file
+    private contentCache = new Map<string, string[]>();
+    private indexSubscription: vscode.Disposable;
+
+    constructor(private brainManager: BrainManager) {
+        // Follows the summaries by itself; only the file lines need dropping on changes
+        this.index = new SearchIndex(filePath => brainManager.getSummary(filePath));
+        this.indexSubscription = brainManager.onDidChange(e => {
+            if (e.reset) {
+                this.contentCache.clear();
+                return;
+            }
+            e.changes.forEach(c => {
+                this.contentCache.delete(c.path); // History versions are cached under their own path
+                this.contentCache.delete(c.nodePath);
+            });
+        });
+    }
+
+    dispose(): void {
+        this.indexSubscription.dispose();
+    }
 
     /**
-     * Search across all Brain directories for a query string.
-     * Searches both filenames and file contents.
+     * Search across all Brain directories, best match first.
+     * Qualifiers (`tag:`, `type:`...) narrow down the files; free words must all occur in the
+     * file (or its name), `"quoted phrases"` as written, and a `/regex/` on the shown lines.
+     * Without words, matching files are listed by most recent brain.
      */
-    public async search(query: string, maxResults: number = 50): Promise<SearchResult[]> {
-        if (!query || query.trim().length < 2) return [];
-
-        const expandedPath = this.expandHomeDir(this.rootPath);
-        if (!fs.existsSync(expandedPath)) return [];
+    public async search(query: BrainSearchQuery, maxResults: number = 50, filters: SearchFilters = {}): Promise<SearchResult[]> {
+        if (isEmptyQuery(query)) return [];
 
+        const { files, candidates } = await this.collectFiles(query, filters);
         const results: SearchResult[] = [];
-        const lowerQuery = query.toLowerCase();
-
         try {
-            const brainDirs = fs.readdirSync(expandedPath, { withFileTypes: true })
-                .filter(d => d.isDirectory() && !d.name.startsWith('.'));
+            // The index covers every searchable file; the query and filters only narrow down the candidates
+            this.index.sync(Array.from(files.keys()));
+
+            const now = Date.now();
+            const matches = query.text.terms.length > 0
+                ? this.index.search(query.text, candidates, !query.wholeWord)
+                : Array.from(candidates).map(filePath => ({ filePath, score: 1 }));
+            const ranked = matches
+                .map(d => ({ filePath: d.filePath, score: d.score * this.recencyBoost(files.get(d.filePath)!.brain.updatedAt, now) }))
+                .sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath));
 
-            for (const dir of brainDirs) {
+            for (const { filePath, score } of ranked) {
                 if (results.length >= maxResults) break;
 
-                const brainPath = path.join(expandedPath, dir.name);
-                const brainName = this.getBrainDisplayName(brainPath, dir.name);
+                const fileName = path.basename(filePath);
+                const lines = await this.getLines(filePath);
+                const match = this.matchFile(fileName, lines, query);
+                if (!match) continue;
 
-                // Scan all .md files in this brain directory
-                const mdFiles = this.findMdFiles(brainPath);
+                const { brain, node } = files.get(filePath)!;
+                const base = {
+                    filePath,
+                    brainPath: brain.path,
+                    brainName: brain.title,
+                    sourceLabel: this.brainManager.getSource(brain.source)?.label || brain.source,
+                    fileName,
+                    artifactType: node.metadata?.artifactType,
+                    brainStatus: brain.status,
+                    score
+                };
 
-                for (const filePath of mdFiles) {
-                    if (results.length >= maxResults) break;
+                // 1. Filename match
+                if (match.fileName) {
+                    results.push({ ...base, matchLine: '', lineNumber: 0, matchType: 'filename' });
+                }
 
-                    const fileName = path.basename(filePath);
-
-                    // Skip resolved/metadata files
-                    if (fileName.includes('.resolved') || fileName.includes('.metadata.json')) continue;
-
-                    // 1. Check filename match
-                    if (fileName.toLowerCase().includes(lowerQuery)) {
-                        results.push({
-                            filePath,
-                            brainName,
-                            fileName,
-                            matchLine: '',
-                            lineNumber: 0,
-                            matchType: 'filename'
-                        });
-                    }
-
-                    // 2. Check content match
-                    try {
-                        const content = fs.readFileSync(filePath, 'utf8');
-                        const lines = content.split('\n');
-                        for (let i = 0; i < lines.length; i++) {
-                            if (results.length >= maxResults) break;
-                            if (lines[i].toLowerCase().includes(lowerQuery)) {
-                                results.push({
-                                    filePath,
-                                    brainName,
-                                    fileName,
-                                    matchLine: lines[i].trim().substring(0, 120),
-                                    lineNumber: i + 1,
-                                    matchType: 'content'
-                                });
-                            }
-                        }
-                    } catch (_) {
-                        // Skip unreadable files
-                    }
+                // 2. The lines matching the most query words
+                for (const { index, text } of match.lines) {
+                    if (results.length >= maxResults) break;
+                    results.push({
+                        ...base,
+                        matchLine: text.trim().substring(0, 120),
+                        lineNumber: index + 1,
+                        matchType: 'content',
+                        contextBefore: lines.slice(Math.max(0, index - CONTEXT_LINES), index),
+                        contextAfter: lines.slice(index + 1, index + 1 + CONTEXT_LINES)
+                    });
                 }
             }
         } catch (e) {
@@ -88,47 +148,190 @@ export class SearchProvider {
         return results;
     }
 
-    private findMdFiles(dirPath: string): string[] {
-        const results: string[] = [];
+    /**
+     * Searches the `.resolved.N` versions of the matching files for lines containing every
+     * query word (and phrase / regex), reporting when each such line appeared and disappeared.
+     * Most recently updated brains first.
+     */
+    public async searchHistory(query: BrainSearchQuery, maxResults: number = 50, filters: SearchFilters = {}): Promise<HistorySearchResult[]> {
+        if (query.text.terms.length === 0 && !query.regex) return [];
+
+        const { files, candidates } = await this.collectFiles(query, filters);
+        const withHistory = Array.from(candidates)
+            .filter(filePath => (files.get(filePath)!.node.resolvedVersions || []).length > 0)
+            .sort((a, b) => (files.get(b)!.brain.updatedAt || 0) - (files.get(a)!.brain.updatedAt || 0) || a.localeCompare(b));
+
+        const results: HistorySearchResult[] = [];
         try {
-            const entries = fs.readdirSync(dirPath, { withFileTypes: true });
-            for (const entry of entries) {
-                const fullPath = path.join(dirPath, entry.name);
-                if (entry.isDirectory() && !entry.name.startsWith('.')) {
-                    // Don't recurse into .system_generated or hidden dirs
-                    results.push(...this.findMdFiles(fullPath));
-                } else if (entry.isFile() && entry.name.endsWith('.md')) {
-                    results.push(fullPath);
+            for (const filePath of withHistory) {
+                if (results.length >= maxResults) break;
+
+                const { brain, node } = files.get(filePath)!;
+                const currentExists = await fs.promises.access(filePath).then(() => true, () => false);
+                const versions = getHistoryVersions(node, currentExists);
+                const versionLines = await Promise.all(versions.map(v => this.getLines(v.path)));
+
+                const spans = traceLineHistory(versionLines, line => this.lineMatches(line, query))
+                    // Text that was removed again is what the regular search cannot find — list it first
+                    .sort((a, b) => (a.removedIn === undefined ? 1 : 0) - (b.removedIn === undefined ? 1 : 0) || a.introducedIn - b.introducedIn);
+                for (const span of spans) {
+                    if (results.length >= maxResults) break;
+                    results.push({
+                        ...span,
+                        text: span.text.substring(0, 120),
+                        filePath,
+                        fileName: path.basename(filePath),
+                        brainName: brain.title,
+                        sourceLabel: this.brainManager.getSource(brain.source)?.label || brain.source,
+                        brainStatus: brain.status,
+                        node,
+                        versions
+                    });
                 }
             }
-        } catch (_) {
-            // Skip unreadable directories
+        } catch (e) {
+            console.warn('History search error:', e);
         }
         return results;
     }
 
-    private getBrainDisplayName(brainPath: string, fallback: string): string {
-        try {
-            const taskMdPath = path.join(brainPath, 'task.md');
-            if (fs.existsSync(taskMdPath)) {
-                const content = fs.readFileSync(taskMdPath, 'utf8');
-                const lines = content.split('\n');
-                let inFrontmatter = false;
-                for (let i = 0; i < lines.length; i++) {
-                    const line = lines[i].trim();
-                    if (i === 0 && line === '---') { inFrontmatter = true; continue; }
-                    if (inFrontmatter) { if (line === '---') inFrontmatter = false; continue; }
-                    if (line.startsWith('# ')) return line.substring(2).trim();
+    /**
+     * Every searchable file, and those the query's qualifiers and the filters let through.
+     */
+    private async collectFiles(query: BrainSearchQuery, filters: SearchFilters) {
+        const files = new Map<string, { brain: Brain; node: BrainNode }>();
+        const candidates = new Set<string>();
+        const brainFilter: BrainFilter = {
+            allTags: query.tags,
+            pinned: query.pinned,
+            statuses: query.statuses,
+            updatedAfter: query.after,
+            updatedBefore: query.before
+        };
+        for (const brain of await this.brainManager.getBrains()) {
+            if (brain.id.startsWith('.')) continue;
+            const brainMatches = (!filters.statuses || filters.statuses.includes(brain.status))
+                && matchesFilter(brain, brainFilter)
+                && query.brains.every(b => brain.title.toLowerCase().includes(b) || brain.id.toLowerCase().includes(b));
+            for (const artifact of brain.artifacts) {
+                const filePath = artifact.path;
+                // Don't descend into .system_generated or other hidden dirs
+                if (!filePath.endsWith('.md')
+                    || path.relative(brain.path, filePath).split(path.sep).slice(0, -1).some(s => s.startsWith('.'))) {
+                    continue;
+                }
+                const artifactType = artifact.metadata?.artifactType;
+                files.set(filePath, { brain, node: artifact });
+                const fileName = path.basename(filePath).toLowerCase();
+                if (brainMatches
+                    && query.files.every(f => fileName.includes(f))
+                    && this.typeMatches(artifactType, query.types)
+                    && this.typeMatches(artifactType, filters.artifactTypes)) {
+                    candidates.add(filePath);
                 }
             }
-        } catch (_) {}
-        return fallback;
+        }
+        return { files, candidates };
+    }
+
+    private typeMatches(artifactType: ArtifactType | undefined, types: ArtifactType[] | undefined): boolean {
+        return !types || types.length === 0 || (artifactType !== undefined && types.includes(artifactType));
+    }
+
+    private recencyBoost(updatedAt: number | undefined, now: number): number {
+        if (!updatedAt) {
+            return 1;
+        }
+        const ageDays = Math.max(0, now - updatedAt) / (24 * 60 * 60 * 1000);
+        return 1 + RECENCY_BOOST * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    }
+
+    /**
+     * Whether a single line contains every query word and phrase and matches the regex.
+     */
+    private lineMatches(line: string, query: BrainSearchQuery): boolean {
+        if (query.regex && !query.regex.test(line)) {
+            return false;
+        }
+        const words = tokenize(line, query.caseSensitive);
+        const key = (word: string) => query.caseSensitive ? word : word.toLowerCase();
+        if (!query.text.terms.every(t => words.some(w => wordMatches(w, key(t), !query.wholeWord)))) {
+            return false;
+        }
+        const joined = ` ${words.join(' ')} `;
+        return query.text.phrases.every(p => joined.includes(` ${p.map(key).join(' ')} `));
     }
 
-    private expandHomeDir(pathStr: string): string {
-        if (pathStr.startsWith('~')) {
-            return path.join(process.env.HOME || process.env.USERPROFILE || '', pathStr.slice(1));
+    /**
+     * Whether the file name matches and which lines to show (best first), applying the
+     * phrases and the case, whole-word and regex options the index knows nothing about.
+     * Undefined when the file does not match after all.
+     */
+    private matchFile(fileName: string, lines: string[], query: BrainSearchQuery): FileMatch | undefined {
+        const { terms, phrases } = query.text;
+        const prefix = !query.wholeWord;
+        const words = (text: string) => tokenize(text, query.caseSensitive);
+        const termKeys = query.caseSensitive ? terms : terms.map(t => t.toLowerCase());
+        const phraseKeys = phrases.map(p => ` ${(query.caseSensitive ? p : p.map(w => w.toLowerCase())).join(' ')} `);
+
+        const nameWords = words(fileName.replace(/[_.-]+/g, ' '));
+        const found = new Set<string>(termKeys.filter(t => nameWords.some(w => wordMatches(w, t, prefix))));
+        const nameMatches = terms.length > 0
+            ? found.size === termKeys.length
+            : query.regex ? query.regex.test(fileName) : true; // Qualifiers only: list the file
+
+        const scored: { index: number; text: string; hits: number }[] = [];
+        const fileWords: string[] = [];
+        lines.forEach((line, index) => {
+            const lineWords = words(line);
+            fileWords.push(...lineWords);
+            const lineTerms = termKeys.filter(t => lineWords.some(w => wordMatches(w, t, prefix)));
+            lineTerms.forEach(t => found.add(t));
+
+            if (query.regex ? !query.regex.test(line) : lineTerms.length === 0) {
+                return;
+            }
+            if (terms.length > 0 && lineTerms.length === 0) {
+                return;
+            }
+            let hits = lineTerms.length;
+            const joined = ` ${lineWords.join(' ')} `;
+            phraseKeys.forEach((p, i) => {
+                if (joined.includes(p)) {
+                    hits += phrases[i].length;
+                }
+            });
+            scored.push({ index, text: line, hits });
+        });
+
+        // The index matched regardless of case; make sure every word is really there
+        if (query.caseSensitive && found.size < termKeys.length) {
+            return undefined;
+        }
+        // Phrases may run across lines
+        const joinedFile = ` ${fileWords.join(' ')} `;
+        if (!phraseKeys.every(p => joinedFile.includes(p))) {
+            return undefined;
+        }
+        if (!nameMatches && scored.length === 0) {
+            return undefined;
+        }
+        return {
+            fileName: nameMatches,
+            lines: scored.sort((a, b) => b.hits - a.hits || a.index - b.index).slice(0, MAX_LINES_PER_FILE)
+        };
+    }
+
+    private async getLines(filePath: string): Promise<string[]> {
+        const cached = this.contentCache.get(filePath);
+        if (cached) return cached;
+        try {
+            const lines = (await fs.promises.readFile(filePath, 'utf8')).split('\n');
+            this.contentCache.set(filePath, lines);
+            return lines;
+        } catch (_) {
+            // Skip unreadable files
+            return [];
         }
-        return pathStr;
     }
 }
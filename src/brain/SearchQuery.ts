@@ -0,0 +1,225 @@
+import { ArtifactType, BrainStatus } from './types';
+import { ARTIFACT_TYPE_LABELS } from './ArtifactMetadata';
+import { isBrainStatus } from './BrainStatus';
+import { parseDateBound } from './BrainFilter';
+import { normalizeTag } from './Tags';
+import { MIN_PREFIX_LENGTH, TextQuery, tokenize, wordMatches, wordRanges } from './SearchIndex';
+
+/**
+ * Search toggles that are not part of the query text (QuickPick buttons).
+ */
+export interface SearchOptions {
+    caseSensitive?: boolean;
+    wholeWord?: boolean;
+}
+
+/**
+ * A parsed search, e.g. `tag:auth type:plan is:pinned "login flow" /TODO\(\w+\)/`.
+ * Every part that is set must match.
+ */
+export interface BrainSearchQuery {
+    text: TextQuery;            // Free words and "phrases", in the case they were typed
+    regex?: RegExp;             // /pattern/flags — matched line by line
+    tags: string[];             // tag: — hierarchical, all required
+    brains: string[];           // brain: — brain title or ID contains
+    files: string[];            // file: — file name contains
+    types: ArtifactType[];      // type: — any of
+    statuses: BrainStatus[];    // status: — any of
+    pinned?: boolean;           // is:pinned / is:unpinned
+    after?: string;             // after: — brain last updated on or after (YYYY-MM-DD or `7d`)
+    before?: string;            // before: — brain last updated before
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    errors: string[];           // Parts of the query that were not understood
+}
+
+export const SEARCH_QUALIFIERS = ['tag', 'brain', 'file', 'type', 'is', 'status', 'after', 'before'];
+
+// qualifier:value | qualifier:"quoted value" | "phrase" | /regex/flags | word
+// Quotes still being typed run to the end of the query
+const TOKEN_PATTERN = /([a-z]+):("[^"]*(?:"|$)|\S*)|("[^"]*(?:"|$))|\/((?:\\.|[^/\\])+)\/([imsu]*)(?=\s|$)|(\S+)/gi;
+
+export function parseSearchQuery(input: string, options: SearchOptions = {}): BrainSearchQuery {
+    const query: BrainSearchQuery = {
+        text: { terms: [], phrases: [] },
+        tags: [],
+        brains: [],
+        files: [],
+        types: [],
+        statuses: [],
+        caseSensitive: options.caseSensitive === true,
+        wholeWord: options.wholeWord === true,
+        errors: []
+    };
+    const words: string[] = [];
+
+    let match: RegExpExecArray | null;
+    TOKEN_PATTERN.lastIndex = 0;
+    while ((match = TOKEN_PATTERN.exec(input)) !== null) {
+        const [token, key, rawValue, phrase, regexSource, regexFlags, word] = match;
+        if (key !== undefined && SEARCH_QUALIFIERS.includes(key.toLowerCase())) {
+            const value = unquote(rawValue);
+            if (value) { // Ignore `tag:` while the value is still being typed
+                applyQualifier(query, key.toLowerCase(), value);
+            }
+        } else if (phrase !== undefined) {
+            const phraseWords = tokenize(unquote(phrase), true);
+            words.push(...phraseWords);
+            if (phraseWords.length > 1) {
+                query.text.phrases.push(phraseWords);
+            }
+        } else if (regexSource !== undefined) {
+            query.regex = buildRegex(query, regexSource, regexFlags);
+        } else {
+            // Plain words, and `key:value` pairs that are not qualifiers (e.g. URLs)
+            words.push(...tokenize(word !== undefined ? word : token, true));
+        }
+    }
+
+    query.text.terms = Array.from(new Set(words));
+    return query;
+}
+
+/**
+ * Whether the query has nothing to search for.
+ */
+export function isEmptyQuery(query: BrainSearchQuery): boolean {
+    return query.text.terms.length === 0 && !query.regex
+        && query.tags.length === 0 && query.brains.length === 0 && query.files.length === 0
+        && query.types.length === 0 && query.statuses.length === 0
+        && query.pinned === undefined && !query.after && !query.before;
+}
+
+/**
+ * Character ranges (`[start, end)`) of `line` that match the query's words or regex, for highlighting.
+ */
+export function findMatchRanges(line: string, query: BrainSearchQuery): [number, number][] {
+    const ranges: [number, number][] = [];
+    if (query.regex) {
+        const pattern = new RegExp(query.regex.source, `${query.regex.flags}g`);
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(line)) !== null) {
+            if (match[0].length === 0) {
+                pattern.lastIndex++;
+                continue;
+            }
+            ranges.push([match.index, match.index + match[0].length]);
+        }
+    }
+    const terms = query.caseSensitive ? query.text.terms : query.text.terms.map(t => t.toLowerCase());
+    for (const { word, start } of wordRanges(line)) {
+        const key = query.caseSensitive ? word : word.toLowerCase();
+        if (terms.some(t => wordMatches(key, t, !query.wholeWord))) {
+            ranges.push([start, start + word.length]);
+        }
+    }
+
+    // Sorted, overlaps merged
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([range[0], range[1]]);
+        }
+    }
+    return merged;
+}
+
+/**
+ * What "replace" replaces for this query: the `/regex/`, or else a single word or quoted phrase.
+ * A single word replaces the words the search matched: without Match Whole Word that includes
+ * longer words starting with it (`auth` also replaces `authentication`), as the results show.
+ * Undefined when the query is ambiguous, e.g. several loose words.
+ */
+export function getReplacePattern(query: BrainSearchQuery): RegExp | undefined {
+    const flags = query.caseSensitive ? 'g' : 'gi';
+    if (query.regex) {
+        return new RegExp(query.regex.source, query.regex.flags.includes('g') ? query.regex.flags : `${query.regex.flags}g`);
+    }
+    const { terms, phrases } = query.text;
+    const escape = (word: string) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (terms.length === 1 && phrases.length === 0) {
+        const prefix = !query.wholeWord && terms[0].length >= MIN_PREFIX_LENGTH;
+        return new RegExp(`\\b${escape(terms[0])}${prefix ? '[A-Za-z0-9_\\u00c0-\\uffff]*' : '\\b'}`, flags);
+    }
+    if (phrases.length === 1 && phrases[0].length === terms.length) {
+        // Words of a phrase may be separated by any punctuation or spacing
+        return new RegExp(`\\b${phrases[0].map(escape).join('[^A-Za-z0-9_\\u00c0-\\uffff]+')}\\b`, flags);
+    }
+    return undefined;
+}
+
+function applyQualifier(query: BrainSearchQuery, key: string, value: string): void {
+    switch (key) {
+        case 'tag':
+            query.tags.push(normalizeTag(value));
+            break;
+        case 'brain':
+            query.brains.push(value.toLowerCase());
+            break;
+        case 'file':
+            query.files.push(value.toLowerCase());
+            break;
+        case 'type': {
+            // `plan` finds `implementation_plan`, `walk` finds `walkthrough`
+            const wanted = value.toLowerCase().replace(/[\s-]+/g, '_');
+            const types = (Object.keys(ARTIFACT_TYPE_LABELS) as ArtifactType[])
+                .filter(t => t === wanted || t.includes(wanted) || ARTIFACT_TYPE_LABELS[t].toLowerCase().includes(value.toLowerCase()));
+            if (types.length > 0) {
+                query.types.push(...types);
+            } else {
+                query.errors.push(`Unknown type "${value}" (use ${Object.keys(ARTIFACT_TYPE_LABELS).join(', ')})`);
+            }
+            break;
+        }
+        case 'status': {
+            const status = value.toLowerCase();
+            if (isBrainStatus(status)) {
+                query.statuses.push(status);
+            } else {
+                query.errors.push(`Unknown status "${value}" (use active, blocked, done, archived)`);
+            }
+            break;
+        }
+        case 'is': {
+            const flag = value.toLowerCase();
+            if (flag === 'pinned' || flag === 'unpinned') {
+                query.pinned = flag === 'pinned';
+            } else if (isBrainStatus(flag)) {
+                query.statuses.push(flag); // `is:done` reads naturally too
+            } else {
+                query.errors.push(`Unknown "is:${value}" (use is:pinned, is:unpinned)`);
+            }
+            break;
+        }
+        case 'after':
+        case 'before':
+            if (parseDateBound(value) === undefined) {
+                query.errors.push(`Invalid date "${value}" (use YYYY-MM-DD or a number of days like 7d)`);
+            } else {
+                query[key] = value;
+            }
+            break;
+    }
+}
+
+function buildRegex(query: BrainSearchQuery, source: string, flags: string): RegExp | undefined {
+    // Explicit flags win over the case toggle
+    let regexFlags = flags.replace(/[gy]/g, '');
+    if (!query.caseSensitive && !regexFlags.includes('i')) {
+        regexFlags += 'i';
+    }
+    try {
+        return new RegExp(query.wholeWord ? `\\b(?:${source})\\b` : source, regexFlags);
+    } catch (e) {
+        query.errors.push((e as Error).message);
+        return undefined;
+    }
+}
+
+function unquote(value: string): string {
+    return value.replace(/^"/, '').replace(/"$/, '').trim();
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { Brain } from './types';
+
+/**
+ * Tags are hierarchical: `client/acme` is a child of `client`, and anything that
+ * asks for `client` also matches `client/acme`.
+ */
+export const TAG_SEPARATOR = '/';
+
+/**
+ * Trims whitespace around every level and drops empty levels (`" client / /acme/"` -> `client/acme`).
+ */
+export function normalizeTag(tag: string): string {
+    return tag.split(TAG_SEPARATOR).map(s => s.trim()).filter(s => s.length > 0).join(TAG_SEPARATOR);
+}
+
+/**
+ * `a/b/c` -> `['a', 'a/b', 'a/b/c']`
+ */
+export function getTagAncestors(tag: string): string[] {
+    const segments = tag.split(TAG_SEPARATOR);
+    return segments.map((_, i) => segments.slice(0, i + 1).join(TAG_SEPARATOR));
+}
+
+/**
+ * Whether `tag` is `filter` itself or one of its descendants.
+ */
+export function tagMatches(tag: string, filter: string): boolean {
+    return tag === filter || tag.startsWith(filter + TAG_SEPARATOR);
+}
+
+export function hasTag(tags: string[], filter: string): boolean {
+    return tags.some(t => tagMatches(t, filter));
+}
+
+/**
+ * Renames `from` (and its descendants) to `to`. Renaming onto an existing tag merges the two.
+ */
+export function renameTag(tags: string[], from: string, to: string): string[] {
+    const renamed = tags.map(t => tagMatches(t, from) ? to + t.slice(from.length) : t);
+    return Array.from(new Set(renamed));
+}
+
+/**
+ * Removes `tag` and its descendants.
+ */
+export function deleteTag(tags: string[], tag: string): string[] {
+    return tags.filter(t => !tagMatches(t, tag));
+}
+
+/**
+ * Every tag in use, including implied parent levels, with the number of brains under it.
+ */
+export function collectTags(brains: Pick<Brain, 'tags'>[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const brain of brains) {
+        const levels = new Set<string>();
+        brain.tags.forEach(t => getTagAncestors(t).forEach(a => levels.add(a)));
+        levels.forEach(level => counts.set(level, (counts.get(level) || 0) + 1));
+    }
+    return counts;
+}
+
+/**
+ * Theme color configured for a tag in `antigravity.tags.colors`, inherited from the closest ancestor.
+ */
+export function getTagColor(tag: string): string | undefined {
+    const colors = vscode.workspace.getConfiguration('antigravity').get<{ [tag: string]: string }>('tags.colors') || {};
+    const ancestors = getTagAncestors(tag).reverse();
+    for (const ancestor of ancestors) {
+        if (colors[ancestor]) {
+            return colors[ancestor];
+        }
+    }
+    return undefined;
+}
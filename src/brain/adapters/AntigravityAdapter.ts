@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrainNodeMetadata } from '../types';
+import { BrainFileInfo, BrainFolderInfo, BrainSourceAdapter } from './BrainSourceAdapter';
+import { parseArtifactMetadata } from '../ArtifactMetadata';
+
+/**
+ * Antigravity / Gemini layout:
+ *   <root>/<uuid>/task.md                    — brain title from its first H1
+ *   <root>/<uuid>/task.md.resolved.N         — history versions
+ *   <root>/<uuid>/task.md.metadata.json      — sidecar with updatedAt etc.
+ *   <root>/<uuid>/**                         — any other artifact (screenshots, JSON, code, sub-folders)
+ */
+export class AntigravityAdapter implements BrainSourceAdapter {
+    readonly id = 'antigravity';
+    readonly label = 'Antigravity';
+    readonly scanPattern = '**/*'; // Hidden files and folders (.system_generated) are skipped by glob
+
+    isTracked(filePath: string): boolean {
+        return !path.basename(filePath).startsWith('.');
+    }
+
+    classify(filePath: string): BrainFileInfo {
+        if (filePath.endsWith('.metadata.json')) {
+            return { basePath: filePath.slice(0, -'.metadata.json'.length), kind: 'metadata' };
+        }
+        if (filePath.includes('.resolved')) {
+            // Extract base path: /path/to/file.md.resolved.1 -> /path/to/file.md
+            const basePath = filePath.split('.resolved')[0];
+            const versionMatch = filePath.match(/\.resolved\.(\d+)$/);
+            return versionMatch
+                ? { basePath, kind: 'history', version: parseInt(versionMatch[1], 10) }
+                : { basePath, kind: 'resolved' };
+        }
+        return { basePath: filePath, kind: 'primary' };
+    }
+
+    readMetadata(basePath: string): BrainNodeMetadata | undefined {
+        // Check if metadata exists for this file
+        const metadataPath = basePath + '.metadata.json';
+        if (!fs.existsSync(metadataPath)) {
+            return undefined;
+        }
+        let raw: unknown;
+        try {
+            raw = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+        } catch (e) {
+            console.warn(`Failed to parse metadata for ${basePath}`, e);
+            return { warnings: [`not valid JSON: ${e instanceof Error ? e.message : e}`] };
+        }
+
+        const metadata = parseArtifactMetadata(raw);
+        if (metadata.warnings) {
+            console.warn(`Malformed metadata in ${metadataPath}: ${metadata.warnings.join('; ')}`);
+        }
+        return metadata;
+    }
+
+    locateBrain(rootPath: string, filePath: string): BrainFolderInfo | undefined {
+        // Every top-level folder is one brain (conversation)
+        const segments = path.relative(rootPath, filePath).split(path.sep);
+        if (segments.length > 1) {
+            return { brainId: segments[0], brainPath: path.join(rootPath, segments[0]) };
+        }
+        return undefined;
+    }
+
+    getPrimaryFile(brainPath: string): string {
+        return path.join(brainPath, 'task.md');
+    }
+
+    getTitle(brainPath: string, brainId: string, heading: string | undefined): string {
+        return heading || brainId;
+    }
+}
@@ -0,0 +1,51 @@
+import { BrainNodeMetadata } from '../types';
+
+/**
+ * What role a file plays for the node it belongs to.
+ * - primary:  the artifact itself (task.md)
+ * - history:  a numbered iteration (task.md.resolved.3)
+ * - resolved: the unnumbered copy of the latest iteration (task.md.resolved)
+ * - metadata: a sidecar (task.md.metadata.json)
+ */
+export type BrainFileKind = 'primary' | 'history' | 'resolved' | 'metadata';
+
+export interface BrainFileInfo {
+    basePath: string; // Path of the primary artifact this file belongs to
+    kind: BrainFileKind;
+    version?: number; // History version number (history files only)
+}
+
+export interface BrainFolderInfo {
+    brainId: string;    // Stable ID of the brain (e.g. the UUID folder name)
+    brainPath: string;  // Absolute path of the brain (a folder, or a single file for one-note brains)
+}
+
+/**
+ * Knows the on-disk conventions of one assistant's artifact layout:
+ * which files belong together, what a "brain" is, and where titles and metadata come from.
+ */
+export interface BrainSourceAdapter {
+    readonly id: string;
+    readonly label: string;
+
+    /** Glob (relative to the root) that finds every file the adapter cares about. */
+    readonly scanPattern: string;
+
+    /** Whether a file is tracked by this layout (same rule as `scanPattern`). */
+    isTracked(filePath: string): boolean;
+
+    /** Maps any tracked file (artifact, history version or sidecar) to the artifact it belongs to. */
+    classify(filePath: string): BrainFileInfo;
+
+    /** Reads metadata for an artifact, if the layout has any. */
+    readMetadata(basePath: string): BrainNodeMetadata | undefined;
+
+    /** Which brain a file inside `rootPath` belongs to; undefined for loose files in the root. */
+    locateBrain(rootPath: string, filePath: string): BrainFolderInfo | undefined;
+
+    /** The artifact that represents the brain — its title and frontmatter come from here. */
+    getPrimaryFile(brainPath: string): string;
+
+    /** Human readable brain title, given the primary file's first H1 (if any); falls back to `brainId`. */
+    getTitle(brainPath: string, brainId: string, heading: string | undefined): string;
+}
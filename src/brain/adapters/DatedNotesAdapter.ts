@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrainNodeMetadata } from '../types';
+import { BrainFileInfo, BrainFolderInfo, BrainSourceAdapter } from './BrainSourceAdapter';
+
+// 2026-10-01-login-api.md, 2026-10-01 Login API.md, 20261001_login.md
+const DATE_PREFIX = /^(\d{4})-?(\d{2})-?(\d{2})[\s_-]*/;
+
+/**
+ * Plain "folder of dated markdown notes" layout:
+ *   <root>/2026-10-01-login-api.md
+ *   <root>/archive/2026-09-14 auth refactor.md
+ *
+ * Every note is its own brain. There is no history and no sidecar; the title is the
+ * note's first H1 (or its file name without the date), timestamps come from the file.
+ */
+export class DatedNotesAdapter implements BrainSourceAdapter {
+    readonly id = 'dated-notes';
+    readonly label = 'Dated Notes';
+    readonly scanPattern = '**/*.md';
+
+    isTracked(filePath: string): boolean {
+        return filePath.endsWith('.md');
+    }
+
+    classify(filePath: string): BrainFileInfo {
+        return { basePath: filePath, kind: 'primary' };
+    }
+
+    readMetadata(basePath: string): BrainNodeMetadata | undefined {
+        try {
+            const stat = fs.statSync(basePath);
+            const metadata: BrainNodeMetadata = { updatedAt: stat.mtime.toISOString() };
+
+            const dateMatch = path.basename(basePath).match(DATE_PREFIX);
+            if (dateMatch) {
+                metadata.createdAt = new Date(`${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}T00:00:00`).toISOString();
+            }
+            return metadata;
+        } catch (_) {
+            return undefined;
+        }
+    }
+
+    locateBrain(rootPath: string, filePath: string): BrainFolderInfo | undefined {
+        const relativePath = path.relative(rootPath, filePath);
+        if (!relativePath || relativePath.startsWith('..')) {
+            return undefined;
+        }
+        // The note itself is the brain; its ID keeps sub-folders to stay unique
+        return { brainId: relativePath.replace(/\.md$/, ''), brainPath: filePath };
+    }
+
+    getPrimaryFile(brainPath: string): string {
+        return brainPath;
+    }
+
+    getTitle(brainPath: string, brainId: string, heading: string | undefined): string {
+        if (heading) {
+            return heading;
+        }
+        const slug = path.basename(brainPath, '.md').replace(DATE_PREFIX, '').replace(/[-_]+/g, ' ').trim();
+        return slug || brainId;
+    }
+}
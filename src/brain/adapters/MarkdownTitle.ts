@@ -0,0 +1,15 @@
+/**
+ * Returns the first H1 header of Markdown content, skipping YAML frontmatter.
+ */
+export function parseMarkdownTitle(content: string): string | undefined {
+    const lines = content.split('\n');
+    let inFrontmatter = false;
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (i === 0 && line === '---') { inFrontmatter = true; continue; }
+        if (inFrontmatter) { if (line === '---') inFrontmatter = false; continue; }
+        // Match H1 headers like "# Title"
+        if (line.startsWith('# ')) { return line.substring(2).trim(); }
+    }
+    return undefined;
+}
@@ -0,0 +1,17 @@
+import { AntigravityAdapter } from './AntigravityAdapter';
+import { BrainSourceAdapter } from './BrainSourceAdapter';
+import { DatedNotesAdapter } from './DatedNotesAdapter';
+
+export * from './BrainSourceAdapter';
+
+const adapters: BrainSourceAdapter[] = [
+    new AntigravityAdapter(),
+    new DatedNotesAdapter()
+];
+
+/**
+ * Looks up a layout adapter by ID, falling back to the Antigravity layout.
+ */
+export function getAdapter(id: string | undefined): BrainSourceAdapter {
+    return adapters.find(a => a.id === id) || adapters[0];
+}
@@ -0,0 +1,60 @@
+import { BrainSource, BrainStatus } from '../types';
+
+/**
+ * What the user attaches to a brain (as opposed to what the assistant writes into it).
+ */
+export interface BrainAnnotations {
+    pinned?: boolean;
+    tags?: string[];
+    status?: BrainStatus;   // Absent = active
+}
+
+/**
+ * Everything a store needs to know to find a brain's annotations.
+ */
+export interface AnnotatedBrain {
+    id: string;           // Brain ID within its source
+    path: string;         // Absolute brain path (folder, or the note itself)
+    source: BrainSource;
+    rootPath: string;     // The source root with `~` expanded
+    primaryFile: string;  // task.md (or the note itself)
+}
+
+export type AnnotationBackend = 'frontmatter' | 'globalState' | 'sidecar' | 'rootFile';
+
+/**
+ * Where pins and tags are kept.
+ */
+export interface AnnotationStore {
+    readonly id: AnnotationBackend;
+    readonly label: string;
+
+    /** Whether writes change artifact files (the index picks those up itself). */
+    readonly modifiesArtifacts: boolean;
+
+    /** Annotations of a brain; empty when it has none. */
+    get(brain: AnnotatedBrain): BrainAnnotations;
+
+    /** Merges `updates` into a brain's annotations. `undefined`, `false`, `[]` and `'active'` clear a field. */
+    update(brain: AnnotatedBrain, updates: Partial<BrainAnnotations>): Promise<void>;
+
+    /** Drops anything read ahead of time, so edits made outside the extension show up. */
+    reset(): void;
+}
+
+/**
+ * Applies an update the way every store does: cleared fields are removed entirely.
+ */
+export function mergeAnnotations(current: BrainAnnotations, updates: Partial<BrainAnnotations>): BrainAnnotations {
+    const merged: BrainAnnotations = { ...current, ...updates };
+    if (!merged.pinned) {
+        delete merged.pinned;
+    }
+    if (!merged.tags || merged.tags.length === 0) {
+        delete merged.tags;
+    }
+    if (!merged.status || merged.status === 'active') {
+        delete merged.status;
+    }
+    return merged;
+}
@@ -0,0 +1,32 @@
+import { BrainFrontmatter, updateFrontmatter } from '../FrontmatterUtils';
+import { isBrainStatus } from '../BrainStatus';
+import { AnnotatedBrain, AnnotationStore, BrainAnnotations } from './AnnotationStore';
+
+/**
+ * Keeps pins and tags in the YAML frontmatter of the brain's primary file (task.md).
+ * Portable and human-editable, but the assistant may rewrite the file at any time.
+ */
+export class FrontmatterAnnotationStore implements AnnotationStore {
+    readonly id = 'frontmatter';
+    readonly label = 'task.md frontmatter';
+    readonly modifiesArtifacts = true;
+
+    /**
+     * @param readFrontmatter Parsed frontmatter of a file (served from the index rather than re-read).
+     */
+    constructor(private readFrontmatter: (filePath: string) => BrainFrontmatter | undefined) {}
+
+    get(brain: AnnotatedBrain): BrainAnnotations {
+        const fm = this.readFrontmatter(brain.primaryFile) || {};
+        return { pinned: fm.pinned === true, tags: fm.tags || [], status: isBrainStatus(fm.status) ? fm.status : undefined };
+    }
+
+    async update(brain: AnnotatedBrain, updates: Partial<BrainAnnotations>): Promise<void> {
+        // `status: active` is the default — drop the key rather than writing it
+        updateFrontmatter(brain.primaryFile, updates.status === 'active' ? { ...updates, status: undefined } : updates);
+    }
+
+    reset(): void {
+        // Always read through the index — nothing to drop
+    }
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { AnnotatedBrain, AnnotationStore, BrainAnnotations, mergeAnnotations } from './AnnotationStore';
+
+const STATE_KEY = 'antigravity.brainAnnotations';
+
+/**
+ * Keeps pins and tags in the extension's global state, keyed by brain path.
+ * Never touches the brain directories, but stays on this machine.
+ */
+export class GlobalStateAnnotationStore implements AnnotationStore {
+    readonly id = 'globalState';
+    readonly label = 'extension storage';
+    readonly modifiesArtifacts = false;
+
+    constructor(private state: vscode.Memento) {}
+
+    get(brain: AnnotatedBrain): BrainAnnotations {
+        return this.readAll()[brain.path] || {};
+    }
+
+    async update(brain: AnnotatedBrain, updates: Partial<BrainAnnotations>): Promise<void> {
+        const all = { ...this.readAll() };
+        const merged = mergeAnnotations(all[brain.path] || {}, updates);
+        if (Object.keys(merged).length > 0) {
+            all[brain.path] = merged;
+        } else {
+            delete all[brain.path];
+        }
+        await this.state.update(STATE_KEY, all);
+    }
+
+    reset(): void {
+        // Memento reads are always current
+    }
+
+    private readAll(): { [brainPath: string]: BrainAnnotations } {
+        return this.state.get<{ [brainPath: string]: BrainAnnotations }>(STATE_KEY) || {};
+    }
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import { AnnotatedBrain, AnnotationBackend, AnnotationStore, BrainAnnotations, mergeAnnotations } from './AnnotationStore';
+
+type AnnotationFile = { [key: string]: unknown };
+
+/**
+ * Where a brain's annotations live: a whole JSON file, or one key of it.
+ */
+export interface AnnotationLocation {
+    filePath: string;
+    key?: string;
+}
+
+/**
+ * Shared logic of the stores that keep annotations in JSON files next to the brains.
+ * Files are read once and cached; `reset()` re-reads them.
+ */
+export abstract class JsonFileAnnotationStore implements AnnotationStore {
+    abstract readonly id: AnnotationBackend;
+    abstract readonly label: string;
+    readonly modifiesArtifacts = false;
+
+    private files = new Map<string, AnnotationFile | undefined>(); // undefined = unreadable
+
+    protected abstract locate(brain: AnnotatedBrain): AnnotationLocation;
+
+    get(brain: AnnotatedBrain): BrainAnnotations {
+        const { filePath, key } = this.locate(brain);
+        const data = this.read(filePath);
+        if (!data) {
+            return {};
+        }
+        return ((key ? data[key] : data) as BrainAnnotations | undefined) || {};
+    }
+
+    async update(brain: AnnotatedBrain, updates: Partial<BrainAnnotations>): Promise<void> {
+        const { filePath, key } = this.locate(brain);
+        this.files.delete(filePath); // Merge into what is on disk right now
+        const data = this.read(filePath);
+        if (!data) {
+            throw new Error(`${filePath} is not valid JSON`);
+        }
+
+        let next: AnnotationFile;
+        if (key) {
+            next = { ...data };
+            const merged = mergeAnnotations((data[key] as BrainAnnotations | undefined) || {}, updates);
+            if (Object.keys(merged).length > 0) {
+                next[key] = merged;
+            } else {
+                delete next[key];
+            }
+        } else {
+            next = { ...mergeAnnotations(data as BrainAnnotations, updates) };
+        }
+
+        if (Object.keys(next).length > 0) {
+            await fs.promises.writeFile(filePath, JSON.stringify(next, null, 2) + '\n', 'utf8');
+        } else {
+            await fs.promises.unlink(filePath).catch(() => undefined); // Nothing left to keep
+        }
+        this.files.set(filePath, next);
+    }
+
+    reset(): void {
+        this.files.clear();
+    }
+
+    private read(filePath: string): AnnotationFile | undefined {
+        if (this.files.has(filePath)) {
+            return this.files.get(filePath);
+        }
+
+        let data: AnnotationFile | undefined = {};
+        if (fs.existsSync(filePath)) {
+            try {
+                const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+                data = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+            } catch (_) {
+                data = undefined;
+            }
+            if (!data) {
+                console.warn(`Ignoring malformed annotations file: ${filePath}`);
+            }
+        }
+        this.files.set(filePath, data);
+        return data;
+    }
+}
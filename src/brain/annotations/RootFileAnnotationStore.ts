@@ -0,0 +1,15 @@
+import * as path from 'path';
+import { AnnotatedBrain } from './AnnotationStore';
+import { AnnotationLocation, JsonFileAnnotationStore } from './JsonFileAnnotationStore';
+
+/**
+ * A single `.brain-annotations.json` in each brain root, keyed by brain ID.
+ */
+export class RootFileAnnotationStore extends JsonFileAnnotationStore {
+    readonly id = 'rootFile';
+    readonly label = 'annotations file in the brain root';
+
+    protected locate(brain: AnnotatedBrain): AnnotationLocation {
+        return { filePath: path.join(brain.rootPath, '.brain-annotations.json'), key: brain.id };
+    }
+}
@@ -0,0 +1,21 @@
+import * as path from 'path';
+import { AnnotatedBrain } from './AnnotationStore';
+import { AnnotationLocation, JsonFileAnnotationStore } from './JsonFileAnnotationStore';
+
+/**
+ * One hidden JSON file per brain:
+ *   <root>/<uuid>/.annotations.json            — folder brains
+ *   <root>/.2026-10-01-login.md.annotations.json — single-note brains
+ * Travels with the brain, and hidden files are ignored by the scanner.
+ */
+export class SidecarAnnotationStore extends JsonFileAnnotationStore {
+    readonly id = 'sidecar';
+    readonly label = 'sidecar file per brain';
+
+    protected locate(brain: AnnotatedBrain): AnnotationLocation {
+        if (brain.primaryFile !== brain.path) {
+            return { filePath: path.join(brain.path, '.annotations.json') };
+        }
+        return { filePath: path.join(path.dirname(brain.path), `.${path.basename(brain.path)}.annotations.json`) };
+    }
+}
@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { BrainFrontmatter } from '../FrontmatterUtils';
+import { AnnotationStore } from './AnnotationStore';
+import { FrontmatterAnnotationStore } from './FrontmatterAnnotationStore';
+import { GlobalStateAnnotationStore } from './GlobalStateAnnotationStore';
+import { RootFileAnnotationStore } from './RootFileAnnotationStore';
+import { SidecarAnnotationStore } from './SidecarAnnotationStore';
+
+export * from './AnnotationStore';
+export { FrontmatterAnnotationStore };
+
+/**
+ * Creates the annotation store chosen in `antigravity.annotations.store`.
+ */
+export function loadAnnotationStore(
+    globalState: vscode.Memento,
+    readFrontmatter: (filePath: string) => BrainFrontmatter | undefined
+): AnnotationStore {
+    const backend = vscode.workspace.getConfiguration('antigravity').get<string>('annotations.store');
+    switch (backend) {
+        case 'frontmatter':
+            return new FrontmatterAnnotationStore(readFrontmatter);
+        case 'sidecar':
+            return new SidecarAnnotationStore();
+        case 'rootFile':
+            return new RootFileAnnotationStore();
+        default:
+            return new GlobalStateAnnotationStore(globalState);
+    }
+}
@@ -1,11 +1,32 @@
+import { ChecklistStats } from './Checklist';
+
+/**
+ * Kind of artifact, as declared by the assistant in the `.metadata.json` sidecar.
+ */
+export type ArtifactType = 'task' | 'implementation_plan' | 'walkthrough' | 'other';
+
+/**
+ * Lifecycle of a brain, set by the user. Brains without a status are active.
+ */
+export type BrainStatus = 'active' | 'blocked' | 'done' | 'archived';
 
 export interface BrainNodeMetadata {
+    // Read from the .metadata.json sidecar (validated by parseArtifactMetadata)
+    artifactType?: ArtifactType;
+    summary?: string;         // One-line description written by the assistant
+    version?: number;         // Artifact version counter
     updatedAt?: string;       // ISO date string
+    createdAt?: string;       // ISO date string
+    extra?: Record<string, unknown>; // Unrecognized sidecar keys, kept verbatim
+    warnings?: string[];      // Problems found while validating the sidecar
+
+    // Computed for brain folders in the tree
     lastUpdated?: number;     // Timestamp (ms)
     fileCount?: number;
     pinned?: boolean;         // true if brain is pinned to the top
     tags?: string[];          // List of user-defined tags
-    [key: string]: any;       // Allow extra fields from .metadata.json
+    status?: BrainStatus;
+    checklist?: ChecklistStats;
 }
 
 export interface BrainNode {
@@ -13,9 +34,14 @@ export interface BrainNode {
     path: string;
     name: string;
     content?: string; // Optional content for parsing
-    type: 'file' | 'directory' | 'summary';
+    type: 'file' | 'directory' | 'folder' | 'summary' | 'source' | 'archive' | 'tag' | 'filter' | 'related' | 'group' | 'checklistItem'; // directory = brain, folder = sub-folder inside a brain
     resolvedVersions?: string[]; // Paths to .resolved versions
     metadata?: BrainNodeMetadata;
+    source?: string; // ID of the BrainSource this node was read from
+    tag?: string; // Full tag of 'tag' nodes ('' for the Tags section)
+    group?: string; // Key of 'group' nodes: date bucket, status, tag or project ('' for brains without one)
+    line?: number; // 0-based line of 'checklistItem' nodes in their file (`path`)
+    parentId?: string; // Brains listed as shortcuts under a tag, saved filter or Related Brains: ID of that node
 }
 
 export interface BrainLink {
@@ -28,3 +54,35 @@ export interface BrainGraph {
     nodes: BrainNode[];
     links: BrainLink[];
 }
+
+/**
+ * One configured brain root directory.
+ */
+export interface BrainSource {
+    id: string;      // Unique key (derived from the label)
+    label: string;   // Shown next to brains that come from this root
+    icon: string;    // Codicon name, e.g. 'cloud' or 'device-desktop'
+    path: string;    // Root directory (may start with ~)
+    adapter: string; // ID of the BrainSourceAdapter that understands this root's layout
+}
+
+/**
+ * One AI conversation ("brain"): a UUID folder for Antigravity, a single note for
+ * dated-notes roots. Produced by BrainManager so every feature shares the same
+ * title, timestamp and annotation rules.
+ */
+export interface Brain {
+    id: string;             // Brain ID (UUID folder name for Antigravity)
+    path: string;           // Absolute path of the brain folder (or note)
+    title: string;          // Human readable title, falls back to the ID
+    source: string;         // ID of the BrainSource it was read from
+    createdAt?: number;     // Timestamp (ms)
+    updatedAt?: number;     // Timestamp (ms) of the most recently updated artifact
+    artifacts: BrainNode[];
+    historyCount: number;   // Total number of history versions across all artifacts
+    tags: string[];
+    pinned: boolean;
+    status: BrainStatus;
+    checklist: ChecklistStats; // Progress of its task list
+    project?: string;       // Code project its artifacts reference most (workspace folder or repository name)
+}
@@ -3,27 +3,76 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { BrainManager } from './brain/BrainManager';
 import { BrainTreeProvider } from './brain/BrainTreeProvider';
-import { SearchProvider } from './brain/SearchProvider';
+import { HistorySearchResult, SearchFilters, SearchProvider } from './brain/SearchProvider';
+import { findMatchRanges, getReplacePattern, parseSearchQuery } from './brain/SearchQuery';
+import { SearchResultsProvider, SearchTreeNode } from './search/SearchResultsProvider';
 import { WebviewManager } from './webview/WebviewManager';
 import { HistoryWebviewManager } from './history/HistoryWebviewManager';
-import { BrainNode } from './brain/types';
-import { parseFrontmatter, updateFrontmatter } from './brain/FrontmatterUtils';
+import { BRAIN_SCHEME, BrainVersionProvider } from './history/BrainVersionProvider';
+import { BrainTimelineProvider } from './history/BrainTimelineProvider';
+import { ActivityMonitor } from './activity/ActivityMonitor';
+import { UnreadTracker } from './activity/UnreadTracker';
+import { loadBrainSources } from './brain/BrainSources';
+import { ArtifactType, Brain, BrainNode, BrainStatus } from './brain/types';
+import { ARTIFACT_TYPE_LABELS } from './brain/ArtifactMetadata';
+import { BRAIN_STATUS_ICONS, BRAIN_STATUS_LABELS } from './brain/BrainStatus';
+import { collectTags, deleteTag, hasTag, normalizeTag, renameTag } from './brain/Tags';
+import { BrainFilter, describeFilter, isEmptyFilter, parseDateBound, renameTagInFilter, SavedFilter } from './brain/BrainFilter';
+import { BrainAnnotations, FrontmatterAnnotationStore, loadAnnotationStore } from './brain/annotations';
+import { BRAIN_GROUPING_ICONS, BRAIN_GROUPING_LABELS, BrainGrouping, isBrainGrouping } from './brain/BrainGrouping';
+import { getExportFileName, renderBrainMarkdown } from './brain/BrainExport';
+import { getHistoryVersions } from './brain/HistorySearch';
+import { ChecklistState, findChecklistLine } from './brain/Checklist';
+import { OpenTasksProvider, setTaskState, TaskGrouping, TaskTreeNode } from './tasks/OpenTasksProvider';
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Congratulations, your extension "antigravity-brain" is now active!');
 
 	// 1. Initialize Brain Manager
-	const config = vscode.workspace.getConfiguration('antigravity');
-	const brainPath = config.get<string>('brainPath') || process.env.HOME + '/.gemini/antigravity/brain';
-	const brainManager = new BrainManager(brainPath);
+	// Parsed artifacts are cached in global storage so startup only re-reads changed files
+	const scanCachePath = vscode.Uri.joinPath(context.globalStorageUri, 'scan-cache.json').fsPath;
+	const brainManager = new BrainManager(loadBrainSources(), scanCachePath);
+	const readFrontmatter = (filePath: string) => brainManager.getSummary(filePath)?.frontmatter;
+	brainManager.setAnnotationStore(loadAnnotationStore(context.globalState, readFrontmatter));
+	const brainWatcher = brainManager.startWatching();
+
+	// Artifacts changed since they were last viewed get a badge, in the tree and the editor tabs
+	const unreadTracker = new UnreadTracker(brainManager, context.globalState);
+	const decorationDisposable = vscode.window.registerFileDecorationProvider(unreadTracker);
+
+	// Read-only documents for artifact versions (brain:/<brainId>/task.md?version=3)
+	const versionProvider = new BrainVersionProvider(brainManager);
+	const versionProviderDisposable = vscode.workspace.registerTextDocumentContentProvider(BRAIN_SCHEME, versionProvider);
 
 	// 2. Create Tree View (instead of registerTreeDataProvider, so we get .reveal())
-	const treeProvider = new BrainTreeProvider(brainManager);
+	const treeProvider = new BrainTreeProvider(brainManager, brainPath => unreadTracker.isBrainUnread(brainPath));
 	const treeView = vscode.window.createTreeView('antigravity-files', {
 		treeDataProvider: treeProvider,
-		showCollapseAll: true
+		showCollapseAll: true,
+		canSelectMany: true
 	});
 
+	// The active filter is shown next to the view title and remembered per workspace
+	const filterSubscription = treeProvider.onDidChangeFilter(filter => {
+		treeView.description = filter ? describeFilter(filter) : undefined;
+		vscode.commands.executeCommand('setContext', 'antigravity.filterActive', !!filter);
+		context.workspaceState.update('antigravity.brainFilter', filter);
+	});
+	treeProvider.setFilter(context.workspaceState.get<BrainFilter>('antigravity.brainFilter'));
+
+	// The Unread filter follows brains being read
+	const unreadSubscription = unreadTracker.onDidChange(() => {
+		if (treeProvider.activeFilter?.unread) {
+			treeProvider.refresh();
+		}
+	});
+
+	// So is the grouping
+	const savedGrouping = context.workspaceState.get<string>('antigravity.brainGrouping');
+	if (isBrainGrouping(savedGrouping)) {
+		treeProvider.setGrouping(savedGrouping);
+	}
+
 	// Helper: reveal a file in the sidebar tree
 	async function revealFileInTree(filePath: string) {
 		try {
@@ -55,6 +104,10 @@ export function activate(context: vscode.ExtensionContext) {
 		if (editor && editor.document.uri.scheme === 'file') {
 			return editor.document.uri.fsPath;
 		}
+		// Read-only versions stand for their artifact
+		if (editor && editor.document.uri.scheme === BRAIN_SCHEME) {
+			return versionProvider.getArtifactPath(editor.document.uri);
+		}
 
 		// 2. Scan ALL tabs across ALL groups for the active tab
 		if (vscode.window.tabGroups) {
@@ -63,6 +116,7 @@ export function activate(context: vscode.ExtensionContext) {
 					if (tab.isActive) {
 						const input = tab.input as any;
 						// Standard text/custom editors: input.uri
+						if (input?.uri?.scheme === BRAIN_SCHEME) { return versionProvider.getArtifactPath(input.uri); }
 						if (input?.uri?.fsPath) { return input.uri.fsPath; }
 						// Markdown Preview: input.sourceUri
 						if (input?.sourceUri?.path) { return input.sourceUri.path; }
@@ -84,6 +138,12 @@ export function activate(context: vscode.ExtensionContext) {
 		return undefined;
 	}
 
+	// Live activity: status bar counter + notifications for new AI output
+	const activityMonitor = new ActivityMonitor(brainManager, filePath => {
+		vscode.window.showTextDocument(vscode.Uri.file(filePath), { preview: true })
+			.then(() => revealFileInTree(filePath));
+	});
+
 	// 3. Register Commands
 	let disposable = vscode.commands.registerCommand('antigravity-brain.openGraph', async () => {
 		WebviewManager.createOrShow(context.extensionUri, brainManager);
@@ -96,16 +156,99 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     // 4. Search Brains Command
-    const searchProvider = new SearchProvider(brainPath);
+    const searchProvider = new SearchProvider(brainManager);
+    // Persistent results (the QuickPick closes on focus loss)
+    const searchResults = new SearchResultsProvider(brainManager, searchProvider, context.globalState);
+    const searchView = vscode.window.createTreeView('antigravity-search', {
+        treeDataProvider: searchResults,
+        showCollapseAll: true
+    });
+    const showInSearchView = async (query: string, options: { caseSensitive: boolean; wholeWord: boolean }, filters?: SearchFilters) => {
+        await vscode.commands.executeCommand('antigravity-search.focus');
+        await searchResults.run({ query, options, filters });
+    };
     let searchDisposable = vscode.commands.registerCommand('antigravity-brain.searchBrains', async () => {
         const quickPick = vscode.window.createQuickPick();
-        quickPick.placeholder = '🔍 Search across all Brains (filename & content)...';
+        quickPick.placeholder = '🔍 Search all Brains — words, "phrase", /regex/, tag: brain: file: type: status: is:pinned after: before:';
         quickPick.matchOnDescription = true;
         quickPick.matchOnDetail = true;
 
+        // Artifact type (from .metadata.json) and brain status filters, set via the title bar button
+        let typeFilter: ArtifactType | undefined;
+        let statusFilter: BrainStatus | undefined;
+        const filterButton: vscode.QuickInputButton = {
+            iconPath: new vscode.ThemeIcon('filter'),
+            tooltip: 'Filter by artifact type or brain status'
+        };
+        let pickingType = false;
+
+        // Match Case / Whole Word / File History toggles; the icon is highlighted while on
+        let caseSensitive = false;
+        let wholeWord = false;
+        let searchHistory = false;
+        const toggleButton = (icon: string, label: string, on: boolean): vscode.QuickInputButton => ({
+            iconPath: new vscode.ThemeIcon(icon, on ? new vscode.ThemeColor('inputOption.activeForeground') : undefined),
+            tooltip: `${label} (${on ? 'on' : 'off'})`
+        });
+        let caseButton = toggleButton('case-sensitive', 'Match Case', caseSensitive);
+        let wordButton = toggleButton('whole-word', 'Match Whole Word', wholeWord);
+        let historyButton = toggleButton('history', 'Search File History', searchHistory);
+        const viewButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('list-tree'), tooltip: 'Open in Brain Search view' };
+        const updateButtons = () => {
+            caseButton = toggleButton('case-sensitive', 'Match Case', caseSensitive);
+            wordButton = toggleButton('whole-word', 'Match Whole Word', wholeWord);
+            historyButton = toggleButton('history', 'Search File History (.resolved versions)', searchHistory);
+            quickPick.buttons = [caseButton, wordButton, historyButton, filterButton, viewButton];
+
+            const active = [
+                typeFilter ? `${ARTIFACT_TYPE_LABELS[typeFilter]} only` : undefined,
+                statusFilter ? `${BRAIN_STATUS_LABELS[statusFilter]} only` : undefined,
+                caseSensitive ? 'Match Case' : undefined,
+                wholeWord ? 'Whole Word' : undefined,
+                searchHistory ? 'File History' : undefined
+            ].filter(f => f);
+            quickPick.title = active.length > 0 ? `Search — ${active.join(' · ')}` : undefined;
+        };
+        updateButtons();
+
+        // History matches: when the line was added and (if so) removed; opens the diff of that change
+        const showAddedButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('diff-added'), tooltip: 'Show the version that added it' };
+        const openVersionButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('go-to-file'), tooltip: 'Open the last version containing it (read-only)' };
+        const toHistoryItem = (m: HistorySearchResult) => {
+            const added = m.introducedIn === 0 ? `in ${m.versions[0].label}` : `added in ${m.versions[m.introducedIn].label}`;
+            const removed = m.removedIn !== undefined ? `removed in ${m.versions[m.removedIn].label}` : 'still present';
+            return {
+                label: `${m.removedIn !== undefined ? '$(diff-removed)' : '$(history)'} ${m.fileName}`,
+                description: [`${added}, ${removed}`, m.brainName, brainManager.sources.length > 1 ? m.sourceLabel : undefined].filter(p => p).join(' · '),
+                detail: m.text,
+                alwaysShow: true,
+                buttons: m.removedIn !== undefined ? [openVersionButton, showAddedButton] : [openVersionButton],
+                _history: m
+            };
+        };
+        const openHistoryChange = (m: HistorySearchResult, change: 'added' | 'removed') => {
+            const to = change === 'removed' && m.removedIn !== undefined ? m.removedIn : m.introducedIn;
+            if (to === 0) {
+                // There since the first version: nothing earlier to compare with
+                versionProvider.open(m.versions[0].path);
+                return;
+            }
+            HistoryWebviewManager.createOrShow(context.extensionUri, m.node, { fromId: m.versions[to - 1].path, toId: m.versions[to].path });
+        };
+        quickPick.onDidTriggerItemButton(e => {
+            const m = (e.item as any)._history as HistorySearchResult | undefined;
+            if (m && e.button === openVersionButton) {
+                versionProvider.open(m.versions[m.removedIn !== undefined ? m.removedIn - 1 : m.versions.length - 1].path);
+                quickPick.hide();
+            } else if (m) {
+                openHistoryChange(m, 'added');
+                quickPick.hide();
+            }
+        });
+
         let debounceTimer: NodeJS.Timeout | undefined;
 
-        quickPick.onDidChangeValue(value => {
+        const runSearch = (value: string) => {
             if (debounceTimer) clearTimeout(debounceTimer);
             debounceTimer = setTimeout(async () => {
                 if (value.trim().length < 2) {
@@ -115,47 +258,128 @@ export function activate(context: vscode.ExtensionContext) {
 
                 quickPick.busy = true;
                 try {
-                    const results = await searchProvider.search(value);
-                    quickPick.items = results.map(r => ({
+                    const filters: SearchFilters = {
+                        artifactTypes: typeFilter ? [typeFilter] : undefined,
+                        statuses: statusFilter ? [statusFilter] : undefined
+                    };
+                    const query = parseSearchQuery(value, { caseSensitive, wholeWord });
+                    // Parts of the query that were not understood come first, as warnings
+                    const warnings: vscode.QuickPickItem[] = query.errors.map(error => ({ label: `$(warning) ${error}`, alwaysShow: true }));
+                    if (searchHistory) {
+                        const matches = await searchProvider.searchHistory(query, 50, filters);
+                        quickPick.items = [...warnings, ...matches.map(toHistoryItem)];
+                        quickPick.busy = false;
+                        return;
+                    }
+                    const results = await searchProvider.search(query, 50, filters);
+                    quickPick.items = [...warnings, ...results.map(r => ({
                         label: r.matchType === 'filename'
                             ? `$(file) ${r.fileName}`
                             : `$(search) ${r.fileName}:${r.lineNumber}`,
-                        description: r.brainName,
+                        description: [
+                            r.brainName,
+                            brainManager.sources.length > 1 ? r.sourceLabel : undefined,
+                            r.brainStatus !== 'active' ? BRAIN_STATUS_LABELS[r.brainStatus] : undefined
+                        ].filter(p => p).join(' · '),
                         detail: r.matchType === 'content' ? r.matchLine : undefined,
+                        alwaysShow: true, // Already matched and ranked — don't let the QuickPick filter them again
                         _filePath: r.filePath,
                         _lineNumber: r.lineNumber
-                    } as any));
+                    } as any))];
                 } catch (e) {
                     console.error('Search error:', e);
                 }
                 quickPick.busy = false;
             }, 300);
+        };
+
+        quickPick.onDidChangeValue(runSearch);
+
+        quickPick.onDidTriggerButton(async button => {
+            if (button === viewButton) {
+                if (quickPick.value.trim().length >= 2) {
+                    const filters: SearchFilters = {
+                        artifactTypes: typeFilter ? [typeFilter] : undefined,
+                        statuses: statusFilter ? [statusFilter] : undefined
+                    };
+                    quickPick.hide();
+                    await showInSearchView(quickPick.value, { caseSensitive, wholeWord }, filters);
+                }
+                return;
+            }
+            if (button === caseButton || button === wordButton || button === historyButton) {
+                if (button === caseButton) {
+                    caseSensitive = !caseSensitive;
+                } else if (button === wordButton) {
+                    wholeWord = !wholeWord;
+                } else {
+                    searchHistory = !searchHistory;
+                }
+                updateButtons();
+                runSearch(quickPick.value);
+                return;
+            }
+
+            type FilterItem = vscode.QuickPickItem & { _type?: ArtifactType | null; _status?: BrainStatus | null };
+            const items: FilterItem[] = [
+                { label: 'Artifact type', kind: vscode.QuickPickItemKind.Separator },
+                { label: '$(list-unordered) All artifact types', _type: null },
+                ...(Object.keys(ARTIFACT_TYPE_LABELS) as ArtifactType[]).map(t => ({
+                    label: ARTIFACT_TYPE_LABELS[t],
+                    description: t === typeFilter ? '✓ active' : undefined,
+                    _type: t
+                })),
+                { label: 'Brain status', kind: vscode.QuickPickItemKind.Separator },
+                { label: '$(list-unordered) Any status', _status: null },
+                ...(Object.keys(BRAIN_STATUS_LABELS) as BrainStatus[]).map(s => ({
+                    label: `$(${BRAIN_STATUS_ICONS[s]}) ${BRAIN_STATUS_LABELS[s]}`,
+                    description: s === statusFilter ? '✓ active' : undefined,
+                    _status: s
+                }))
+            ];
+            pickingType = true; // The nested picker hides this one — don't dispose it
+            const picked = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Only search artifacts of type / brains with status...'
+            });
+            pickingType = false;
+            if (picked && picked._type !== undefined) {
+                typeFilter = picked._type || undefined;
+            } else if (picked && picked._status !== undefined) {
+                statusFilter = picked._status || undefined;
+            }
+            updateButtons();
+            quickPick.show();
+            runSearch(quickPick.value);
         });
 
         quickPick.onDidAccept(() => {
             const selected = quickPick.selectedItems[0] as any;
-            if (selected && selected._filePath) {
-                const uri = vscode.Uri.file(selected._filePath);
-                const line = selected._lineNumber ? selected._lineNumber - 1 : 0;
-                vscode.window.showTextDocument(uri, {
-                    selection: new vscode.Range(line, 0, line, 0),
-                    preview: true
-                }).then(() => revealFileInTree(selected._filePath));
+            if (selected && selected._history) {
+                openHistoryChange(selected._history, 'removed');
+                quickPick.hide();
+                return;
+            }
+            if (!selected || !selected._filePath) {
+                return; // A warning, not a result
             }
+            const uri = vscode.Uri.file(selected._filePath);
+            const line = selected._lineNumber ? selected._lineNumber - 1 : 0;
+            vscode.window.showTextDocument(uri, {
+                selection: new vscode.Range(line, 0, line, 0),
+                preview: true
+            }).then(() => revealFileInTree(selected._filePath));
             quickPick.hide();
         });
 
-        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.onDidHide(() => {
+            if (!pickingType) { quickPick.dispose(); }
+        });
         quickPick.show();
     });
 
     // 5. Recent Activity Command
     let recentDisposable = vscode.commands.registerCommand('antigravity-brain.recentActivity', async () => {
         const graph = await brainManager.buildGraph();
-        let rootPath = brainManager.rootPath;
-        if (rootPath.startsWith('~')) {
-            rootPath = path.join(process.env.HOME || process.env.USERPROFILE || '', rootPath.slice(1));
-        }
 
         // Sort all nodes by updatedAt descending
         const sorted = graph.nodes
@@ -168,28 +392,11 @@ export function activate(context: vscode.ExtensionContext) {
             .slice(0, 30);
 
         const items = sorted.map(node => {
-            const relativePath = path.relative(rootPath, node.path);
-            const segments = relativePath.split(path.sep);
-            const brainId = segments.length > 1 ? segments[0] : '(root)';
-
-            // Resolve brain display name from task.md
-            let brainName = brainId;
-            if (segments.length > 1) {
-                try {
-                    const brainDir = path.join(rootPath, brainId);
-                    const taskMdPath = path.join(brainDir, 'task.md');
-                    if (fs.existsSync(taskMdPath)) {
-                        const content = fs.readFileSync(taskMdPath, 'utf8');
-                        const lines = content.split('\n');
-                        let inFrontmatter = false;
-                        for (let i = 0; i < lines.length; i++) {
-                            const line = lines[i].trim();
-                            if (i === 0 && line === '---') { inFrontmatter = true; continue; }
-                            if (inFrontmatter) { if (line === '---') inFrontmatter = false; continue; }
-                            if (line.startsWith('# ')) { brainName = line.substring(2).trim(); break; }
-                        }
-                    }
-                } catch (_) {}
+            const location = brainManager.getLocation(node.path);
+            const brain = brainManager.getBrainForPath(node.path);
+            let brainName = brain ? brain.title : '(root)';
+            if (location && brainManager.sources.length > 1) {
+                brainName += ` · ${location.source.label}`;
             }
 
             // Format time
@@ -236,56 +443,55 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     // 7. Refresh Tree Command
-    let refreshDisposable = vscode.commands.registerCommand('antigravity-brain.refreshTree', () => {
-        treeProvider.refresh();
+    let refreshDisposable = vscode.commands.registerCommand('antigravity-brain.refreshTree', async () => {
+        await brainManager.refresh(); // Full rescan; the tree re-renders from the index change event
     });
 
-    // 8. Pin Brain Command
-    let pinDisposable = vscode.commands.registerCommand('antigravity-brain.pinBrain', async (node: BrainNode) => {
-        if (!node || node.type !== 'directory') { return; }
-        const taskMdPath = path.join(node.path, 'task.md');
-        updateFrontmatter(taskMdPath, { pinned: true });
-        treeProvider.refresh();
-        vscode.window.showInformationMessage(`📌 Pinned: ${node.name}`);
+    // 8. Pin Brain Command — the brain, or every selected brain
+    let pinDisposable = vscode.commands.registerCommand('antigravity-brain.pinBrain', async (node?: BrainNode, selected?: BrainNode[]) => {
+        await setPinned(getSelectedBrains(brainManager, node, selected || treeView.selection), true);
     });
 
     // 9. Unpin Brain Command
-    let unpinDisposable = vscode.commands.registerCommand('antigravity-brain.unpinBrain', async (node: BrainNode) => {
-        if (!node || node.type !== 'directory') { return; }
-        const taskMdPath = path.join(node.path, 'task.md');
-        updateFrontmatter(taskMdPath, { pinned: false });
-        treeProvider.refresh();
-        vscode.window.showInformationMessage(`📌 Unpinned: ${node.name}`);
+    let unpinDisposable = vscode.commands.registerCommand('antigravity-brain.unpinBrain', async (node?: BrainNode, selected?: BrainNode[]) => {
+        await setPinned(getSelectedBrains(brainManager, node, selected || treeView.selection), false);
     });
 
-    // 10. Manage Tags Command
-    let tagsDisposable = vscode.commands.registerCommand('antigravity-brain.manageTags', async (node: BrainNode) => {
-        if (!node || node.type !== 'directory') { return; }
-        const taskMdPath = path.join(node.path, 'task.md');
-        const currentFm = parseFrontmatter(taskMdPath);
-        const currentTags = currentFm.tags || [];
+    async function setPinned(brains: Brain[], pinned: boolean) {
+        if (brains.length === 0) { return; }
+        const verb = pinned ? 'Pinned' : 'Unpinned';
+        if (brains.length === 1) {
+            if (!await annotateBrain(brainManager, brains[0].path, { pinned })) { return; }
+            vscode.window.showInformationMessage(`📌 ${verb}: ${brains[0].title}`);
+            return;
+        }
+        if (!await confirmBrains(`${pinned ? 'Pin' : 'Unpin'} ${brains.length} brains?`, brains, pinned ? 'Pin' : 'Unpin')) { return; }
+        const failed = await updateBrains(brains, brain => brainManager.annotate(brain.path, { pinned }));
+        reportBulkResult(`📌 ${verb}`, brains, failed);
+    }
+
+    // 10. Manage Tags Command — edit one brain's tags, or add/remove tags on every selected brain
+    let tagsDisposable = vscode.commands.registerCommand('antigravity-brain.manageTags', async (node?: BrainNode, selected?: BrainNode[]) => {
+        const brains = getSelectedBrains(brainManager, node, selected || treeView.selection);
+        if (brains.length > 1) {
+            await editTagsOfBrains(brains);
+            return;
+        }
+        const brain = brains[0];
+        if (!brain) { return; }
+        const currentTags = brain.tags;
 
         // Collect all existing tags across all brains
         const allTagsSet = new Set<string>(currentTags);
-        let rootPath = brainManager.rootPath;
-        if (rootPath.startsWith('~')) {
-            rootPath = path.join(process.env.HOME || process.env.USERPROFILE || '', rootPath.slice(1));
+        for (const other of await brainManager.getBrains()) {
+            other.tags.forEach(t => allTagsSet.add(t));
         }
-        try {
-            const entries = fs.readdirSync(rootPath, { withFileTypes: true });
-            for (const entry of entries) {
-                if (entry.isDirectory()) {
-                    const fm = parseFrontmatter(path.join(rootPath, entry.name, 'task.md'));
-                    (fm.tags || []).forEach(t => allTagsSet.add(t));
-                }
-            }
-        } catch (_) {}
 
         const allTagsSorted = Array.from(allTagsSet).sort();
 
         // Use createQuickPick for dynamic "add new tag" UX
         const qp = vscode.window.createQuickPick<vscode.QuickPickItem>();
-        qp.title = `🏷️ Tags: ${node.name}`;
+        qp.title = `🏷️ Tags: ${brain.title}`;
         qp.placeholder = 'Type to search or create a new tag';
         qp.canSelectMany = true;
 
@@ -324,7 +530,7 @@ export function activate(context: vscode.ExtensionContext) {
             if (addItem) {
                 const match = addItem.label.match(/Add "(.+)"/);
                 if (match) {
-                    const newTag = match[1].trim();
+                    const newTag = normalizeTag(match[1]);
                     if (newTag && !allTagsSet.has(newTag)) {
                         allTagsSet.add(newTag);
                         allTagsSorted.push(newTag);
@@ -351,33 +557,69 @@ export function activate(context: vscode.ExtensionContext) {
 
         if (result === undefined) { return; } // Cancelled
 
-        updateFrontmatter(taskMdPath, { tags: result });
-        treeProvider.refresh();
+        if (!await annotateBrain(brainManager, brain.path, { tags: result })) { return; }
         vscode.window.showInformationMessage(
             result.length > 0
                 ? `🏷️ Tags updated: [${result.join(', ')}]`
-                : `🏷️ All tags removed from: ${node.name}`
+                : `🏷️ All tags removed from: ${brain.title}`
         );
     });
 
-    // 11. Filter by Tag Command
-    let filterTagDisposable = vscode.commands.registerCommand('antigravity-brain.filterByTag', async () => {
-        let rootPath = brainManager.rootPath;
-        if (rootPath.startsWith('~')) {
-            rootPath = path.join(process.env.HOME || process.env.USERPROFILE || '', rootPath.slice(1));
-        }
+    async function editTagsOfBrains(brains: Brain[]) {
+        const action = await vscode.window.showQuickPick([
+            { label: '$(add) Add Tags...', _add: true },
+            { label: '$(remove) Remove Tags...', _add: false }
+        ], { placeHolder: `Tags of ${brains.length} brains` });
+        if (!action) { return; }
 
-        // Collect all tags across all brains
-        const allTags = new Set<string>();
-        try {
-            const entries = fs.readdirSync(rootPath, { withFileTypes: true });
-            for (const entry of entries) {
-                if (entry.isDirectory()) {
-                    const fm = parseFrontmatter(path.join(rootPath, entry.name, 'task.md'));
-                    (fm.tags || []).forEach(t => allTags.add(t));
-                }
+        let tags: string[];
+        if (action._add) {
+            const allTags = collectTags(await brainManager.getBrains());
+            const picked = await vscode.window.showQuickPick([
+                { label: '$(edit) New Tag...', _tag: '' },
+                ...Array.from(allTags.keys()).sort().map(tag => ({ label: tag, description: `${allTags.get(tag)} brains`, _tag: tag }))
+            ], { canPickMany: true, placeHolder: 'Tags to add to every selected brain' });
+            if (!picked || picked.length === 0) { return; }
+            tags = picked.filter(p => p._tag).map(p => p._tag);
+            if (picked.some(p => !p._tag)) {
+                const typed = await vscode.window.showInputBox({ prompt: 'New tags, separated by commas', placeHolder: 'area/auth, review' });
+                if (typed === undefined) { return; }
+                tags.push(...typed.split(',').map(normalizeTag).filter(t => t));
             }
-        } catch (_) {}
+        } else {
+            // Only tags some selected brain actually has
+            const present = new Set<string>();
+            brains.forEach(b => b.tags.forEach(t => present.add(t)));
+            if (present.size === 0) {
+                vscode.window.showInformationMessage('None of the selected brains have tags.');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(Array.from(present).sort()
+                .map(tag => ({ label: tag, description: `${brains.filter(b => b.tags.includes(tag)).length} of ${brains.length}` })),
+                { canPickMany: true, placeHolder: 'Tags to remove from the selected brains' });
+            if (!picked || picked.length === 0) { return; }
+            tags = picked.map(p => p.label);
+        }
+        tags = Array.from(new Set(tags));
+        if (tags.length === 0) { return; }
+
+        const verb = action._add ? 'Add' : 'Remove';
+        const affected = brains.filter(b => action._add ? tags.some(t => !b.tags.includes(t)) : tags.some(t => b.tags.includes(t)));
+        if (affected.length === 0) {
+            vscode.window.showInformationMessage(`🏷️ Nothing to change: ${tags.join(', ')}`);
+            return;
+        }
+        if (!await confirmBrains(`${verb} ${tags.join(', ')} ${action._add ? 'to' : 'from'} ${affected.length} brains?`, affected, verb)) { return; }
+        const failed = await updateBrains(affected, brain => brainManager.annotate(brain.path, {
+            tags: action._add ? Array.from(new Set([...brain.tags, ...tags])) : brain.tags.filter(t => !tags.includes(t))
+        }));
+        reportBulkResult(`🏷️ ${action._add ? 'Tagged' : 'Untagged'}`, affected, failed);
+    }
+
+    // 11. Filter by Tag Command
+    let filterTagDisposable = vscode.commands.registerCommand('antigravity-brain.filterByTag', async () => {
+        // Collect all tags across all brains (in every root), including parent levels of nested tags
+        const allTags = collectTags(await brainManager.getBrains());
 
         if (allTags.size === 0) {
             vscode.window.showInformationMessage('No tags found. Add tags to your brains first via right-click → Manage Tags.');
@@ -385,13 +627,14 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         const SHOW_ALL = '$(list-unordered) Show all brains (clear filter)';
-        const currentFilter = treeProvider.activeTagFilter;
+        const currentFilter = treeProvider.activeFilter;
+        const currentTags = currentFilter?.allTags || [];
 
         const items: vscode.QuickPickItem[] = [
-            { label: SHOW_ALL, description: currentFilter ? `(current: ${currentFilter})` : '(no filter active)' },
-            ...Array.from(allTags).sort().map(tag => ({
+            { label: SHOW_ALL, description: currentFilter ? `(current: ${describeFilter(currentFilter)})` : '(no filter active)' },
+            ...Array.from(allTags.keys()).sort().map(tag => ({
                 label: `$(tag) ${tag}`,
-                description: tag === currentFilter ? '✓ active' : undefined
+                description: currentTags.includes(tag) ? `${allTags.get(tag)} brains ✓ active` : `${allTags.get(tag)} brains`
             }))
         ];
 
@@ -403,15 +646,814 @@ export function activate(context: vscode.ExtensionContext) {
         if (!picked) { return; }
 
         if (picked.label === SHOW_ALL) {
-            treeProvider.setTagFilter(undefined);
+            treeProvider.setFilter(undefined);
             vscode.window.showInformationMessage('🏷️ Tag filter cleared — showing all brains');
         } else {
             const tag = picked.label.replace('$(tag) ', '');
-            treeProvider.setTagFilter(tag);
+            treeProvider.setFilter({ allTags: [tag] });
             vscode.window.showInformationMessage(`🏷️ Filtering by tag: [${tag}]`);
         }
     });
 
+    // Brains that still carry pins/tags/status in their task.md frontmatter
+    const frontmatter = new FrontmatterAnnotationStore(readFrontmatter);
+    async function findFrontmatterAnnotations() {
+        return (await brainManager.getBrains())
+            .map(brain => ({ brain, ref: brainManager.getAnnotatedBrain(brain.path) }))
+            .filter(({ ref }) => {
+                const annotations = ref ? frontmatter.get(ref) : {};
+                return annotations.pinned || (annotations.tags && annotations.tags.length > 0) || annotations.status;
+            });
+    }
+
+    // Offer the migration when another store is in use, every session until the user moves them
+    // (until then those pins and tags do not show in the tree)
+    if (!brainManager.annotationStore.modifiesArtifacts && !context.globalState.get('antigravity.annotationMigrationOffered')) {
+        findFrontmatterAnnotations().then(async pending => {
+            if (pending.length === 0) { return; }
+            const action = await vscode.window.showInformationMessage(
+                `${pending.length} brains have pins or tags in task.md frontmatter. Move them into the ${brainManager.annotationStore.label}?`,
+                'Move', 'Not Now'
+            );
+            if (action === 'Move') {
+                await context.globalState.update('antigravity.annotationMigrationOffered', true);
+                vscode.commands.executeCommand('antigravity-brain.migrateAnnotations');
+            }
+        }).catch(e => console.warn('Failed to look for frontmatter annotations', e));
+    }
+
+    // 12. Migrate Annotations Command — moves frontmatter pins/tags into the configured store
+    let migrateDisposable = vscode.commands.registerCommand('antigravity-brain.migrateAnnotations', async () => {
+        const store = brainManager.annotationStore;
+        if (store.modifiesArtifacts) {
+            const action = await vscode.window.showInformationMessage(
+                'Pins and tags are stored in task.md frontmatter. Choose another annotation store first.',
+                'Open Settings'
+            );
+            if (action === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'antigravity.annotations.store');
+            }
+            return;
+        }
+
+        const pending = await findFrontmatterAnnotations();
+        if (pending.length === 0) {
+            vscode.window.showInformationMessage('No pins or tags found in task.md frontmatter.');
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Move pins and tags of ${pending.length} brains from task.md frontmatter into the ${store.label}?`,
+            { modal: true },
+            'Move'
+        );
+        if (confirm !== 'Move') { return; }
+
+        const failed: string[] = [];
+        for (const { brain, ref } of pending) {
+            const from = frontmatter.get(ref!);
+            try {
+                // Merge with anything already in the target store, then clear the frontmatter
+                await brainManager.annotate(brain.path, {
+                    pinned: from.pinned || brain.pinned,
+                    tags: Array.from(new Set([...brain.tags, ...(from.tags || [])])),
+                    status: brain.status !== 'active' ? brain.status : from.status
+                });
+                await frontmatter.update(ref!, { pinned: undefined, tags: undefined, status: undefined });
+            } catch (e) {
+                console.warn(`Failed to migrate annotations of ${brain.path}`, e);
+                failed.push(brain.title);
+            }
+        }
+
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`Moved ${pending.length - failed.length} brains; failed: ${failed.join(', ')}`);
+        } else {
+            vscode.window.showInformationMessage(`Moved pins and tags of ${pending.length} brains into the ${store.label}.`);
+        }
+    });
+
+    // 13. Set Status Command — from the context menu (one or several selected brains) or the palette
+    let statusDisposable = vscode.commands.registerCommand('antigravity-brain.setStatus', async (node?: BrainNode, selected?: BrainNode[]) => {
+        let brains = getSelectedBrains(brainManager, node, selected || treeView.selection);
+
+        if (brains.length === 0) {
+            // Palette: choose any number of brains first
+            const all = (await brainManager.getBrains()).sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+            const picked = await vscode.window.showQuickPick(all.map(b => ({
+                label: `$(${BRAIN_STATUS_ICONS[b.status]}) ${b.title}`,
+                description: BRAIN_STATUS_LABELS[b.status],
+                _brain: b
+            })), { canPickMany: true, placeHolder: 'Select brains to change' });
+            if (!picked || picked.length === 0) { return; }
+            brains = picked.map(p => p._brain);
+        }
+
+        const current = brains.length === 1 ? brains[0].status : undefined;
+        const status = await vscode.window.showQuickPick((Object.keys(BRAIN_STATUS_LABELS) as BrainStatus[]).map(s => ({
+            label: `$(${BRAIN_STATUS_ICONS[s]}) ${BRAIN_STATUS_LABELS[s]}`,
+            description: s === current ? '✓ current' : undefined,
+            _status: s
+        })), { placeHolder: brains.length === 1 ? `Status of "${brains[0].title}"` : `Status of ${brains.length} brains` });
+        if (!status) { return; }
+        if (brains.length > 1 && !await confirmBrains(`Mark ${brains.length} brains as ${BRAIN_STATUS_LABELS[status._status]}?`, brains, 'Set Status')) {
+            return;
+        }
+
+        const failed = await updateBrains(brains, brain => brainManager.annotate(brain.path, { status: status._status }));
+        if (failed.length > 0) {
+            reportBulkResult(`Status → ${BRAIN_STATUS_LABELS[status._status]}`, brains, failed);
+        } else {
+            const target = brains.length === 1 ? brains[0].title : `${brains.length} brains`;
+            vscode.window.showInformationMessage(`${target} → ${BRAIN_STATUS_LABELS[status._status]}`);
+        }
+    });
+
+    // 14. Organize Tags Command — rename, merge or delete a tag across every brain, or color it
+    let organizeTagsDisposable = vscode.commands.registerCommand('antigravity-brain.organizeTags', async (node?: BrainNode) => {
+        const brains = await brainManager.getBrains();
+        const allTags = collectTags(brains);
+
+        let tag = node?.type === 'tag' ? node.tag : undefined;
+        if (!tag) {
+            if (allTags.size === 0) {
+                vscode.window.showInformationMessage('No tags found. Add tags to your brains first via right-click → Manage Tags.');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(Array.from(allTags.keys()).sort().map(t => ({
+                label: `$(tag) ${t}`,
+                description: `${allTags.get(t)} brains`,
+                _tag: t
+            })), { placeHolder: 'Tag to organize' });
+            if (!picked) { return; }
+            tag = picked._tag;
+        }
+        const from = tag;
+
+        const action = await vscode.window.showQuickPick([
+            { label: '$(edit) Rename...', _action: 'rename' },
+            { label: '$(merge) Merge into...', _action: 'merge' },
+            { label: '$(trash) Delete', _action: 'delete' },
+            { label: '$(symbol-color) Set Color...', _action: 'color' }
+        ], { placeHolder: `"${from}" (${allTags.get(from) || 0} brains, sub-tags included)` });
+        if (!action) { return; }
+
+        if (action._action === 'color') {
+            const COLORS = ['charts.red', 'charts.orange', 'charts.yellow', 'charts.green', 'charts.blue', 'charts.purple'];
+            const color = await vscode.window.showQuickPick([
+                { label: '$(circle-slash) No color', _color: undefined as string | undefined },
+                ...COLORS.map(c => ({ label: `$(tag) ${c.replace('charts.', '')}`, _color: c as string | undefined }))
+            ], { placeHolder: `Color of "${from}" and its sub-tags` });
+            if (!color) { return; }
+            const config = vscode.workspace.getConfiguration('antigravity');
+            const colors = { ...(config.get<{ [tag: string]: string }>('tags.colors') || {}) };
+            if (color._color) {
+                colors[from] = color._color;
+            } else {
+                delete colors[from];
+            }
+            await config.update('tags.colors', colors, vscode.ConfigurationTarget.Global);
+            return;
+        }
+
+        // Work out the new tags of every affected brain
+        let to: string | undefined;
+        if (action._action === 'rename') {
+            const input = await vscode.window.showInputBox({
+                prompt: `Rename "${from}" (sub-tags move along)`,
+                value: from,
+                validateInput: value => normalizeTag(value) ? undefined : 'Tag cannot be empty'
+            });
+            if (input === undefined) { return; }
+            to = normalizeTag(input);
+        } else if (action._action === 'merge') {
+            const target = await vscode.window.showQuickPick(
+                Array.from(allTags.keys()).filter(t => t !== from).sort().map(t => ({ label: `$(tag) ${t}`, _tag: t })),
+                { placeHolder: `Merge "${from}" into...` }
+            );
+            if (!target) { return; }
+            to = target._tag;
+        }
+        if (to === from) { return; }
+
+        const changes = brains
+            .filter(b => hasTag(b.tags, from))
+            .map(b => ({ brain: b, tags: to !== undefined ? renameTag(b.tags, from, to) : deleteTag(b.tags, from) }));
+
+        // Preview: every affected brain, all selected — untick to leave a brain alone
+        const verb = to !== undefined ? `${action._action === 'merge' ? 'Merge' : 'Rename'} "${from}" → "${to}"` : `Delete "${from}"`;
+        const preview = await vscode.window.showQuickPick(changes.map(c => ({
+            label: c.brain.title,
+            description: `[${c.brain.tags.join(', ')}] → [${c.tags.join(', ')}]`,
+            picked: true,
+            _change: c
+        })), { canPickMany: true, title: `${verb}: ${changes.length} brains`, placeHolder: 'Press Enter to apply to the selected brains' });
+        if (!preview || preview.length === 0) { return; }
+
+        const failed: string[] = [];
+        for (const { _change: c } of preview) {
+            try {
+                await brainManager.annotate(c.brain.path, { tags: c.tags });
+            } catch (e) {
+                console.warn(`Failed to update tags of ${c.brain.path}`, e);
+                failed.push(c.brain.title);
+            }
+        }
+        // Filters follow the renamed tag and drop a deleted one
+        if (treeProvider.activeFilter) {
+            treeProvider.setFilter(renameTagInFilter(treeProvider.activeFilter, from, to));
+        }
+        const savedFilters = treeProvider.getSavedFilters();
+        const renamedFilters = savedFilters.map(f => ({ name: f.name, filter: renameTagInFilter(f.filter, from, to) }));
+        if (JSON.stringify(renamedFilters) !== JSON.stringify(savedFilters)) {
+            await storeSavedFilters(renamedFilters);
+        }
+
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`${verb}: updated ${preview.length - failed.length} brains; failed: ${failed.join(', ')}`);
+        } else {
+            vscode.window.showInformationMessage(`🏷️ ${verb}: updated ${preview.length} brains`);
+        }
+    });
+
+    // 15. Filter builder: tags (AND / OR / NOT), pinned, status and last update
+    let editFilterDisposable = vscode.commands.registerCommand('antigravity-brain.editFilter', async () => {
+        const allTags = collectTags(await brainManager.getBrains());
+        let filter: BrainFilter = { ...(treeProvider.activeFilter || {}) };
+
+        const pickTags = async (current: string[] | undefined, placeHolder: string) => {
+            const picked = await vscode.window.showQuickPick(Array.from(allTags.keys()).sort().map(tag => ({
+                label: tag,
+                description: `${allTags.get(tag)} brains`,
+                picked: (current || []).includes(tag)
+            })), { canPickMany: true, placeHolder });
+            return picked ? picked.map(p => p.label) : current;
+        };
+        const pickDate = async (current: string | undefined, prompt: string) => {
+            const input = await vscode.window.showInputBox({
+                prompt,
+                value: current,
+                placeHolder: 'YYYY-MM-DD, or e.g. 7d for a week ago (empty to clear)',
+                validateInput: value => !value.trim() || parseDateBound(value) !== undefined ? undefined : 'Use YYYY-MM-DD or a number of days like 7d'
+            });
+            return input === undefined ? current : input.trim() || undefined;
+        };
+        const describeTags = (tags: string[] | undefined) => tags && tags.length > 0 ? tags.join(', ') : '';
+
+        for (;;) {
+            const summary = isEmptyFilter(filter) ? 'No criteria — all brains' : describeFilter(filter);
+            const items: (vscode.QuickPickItem & { _action?: string })[] = [
+                { label: '$(check) Apply', description: summary, _action: 'apply' },
+                { label: '$(save) Save as...', description: 'Keep as a smart folder in the Brain Explorer', _action: 'save' },
+                { label: 'Criteria', kind: vscode.QuickPickItemKind.Separator },
+                { label: '$(tag) All of these tags (AND)...', description: describeTags(filter.allTags), _action: 'allTags' },
+                { label: '$(tag) Any of these tags (OR)...', description: describeTags(filter.anyTags), _action: 'anyTags' },
+                { label: '$(tag) None of these tags (NOT)...', description: describeTags(filter.noneTags), _action: 'noneTags' },
+                { label: '$(pin) Pinned...', description: filter.pinned === undefined ? '' : filter.pinned ? 'pinned' : 'not pinned', _action: 'pinned' },
+                { label: '$(circle-large-outline) Status...', description: (filter.statuses || []).map(s => BRAIN_STATUS_LABELS[s]).join(', '), _action: 'statuses' },
+                { label: '$(calendar) Updated after...', description: filter.updatedAfter || '', _action: 'updatedAfter' },
+                { label: '$(calendar) Updated before...', description: filter.updatedBefore || '', _action: 'updatedBefore' },
+                { label: '$(circle-filled) Unread only', description: filter.unread ? 'on' : 'off', _action: 'unread' },
+                { label: '$(clear-all) Clear all criteria', _action: 'clear' }
+            ];
+            const picked = await vscode.window.showQuickPick(items, { title: 'Brain Filter', placeHolder: summary });
+            if (!picked) { return; }
+
+            switch (picked._action) {
+                case 'apply':
+                    treeProvider.setFilter(filter);
+                    return;
+                case 'save': {
+                    if (await saveFilterAs(filter)) {
+                        treeProvider.setFilter(filter);
+                        return;
+                    }
+                    break;
+                }
+                case 'allTags':
+                    filter.allTags = await pickTags(filter.allTags, 'Brains must have every selected tag');
+                    break;
+                case 'anyTags':
+                    filter.anyTags = await pickTags(filter.anyTags, 'Brains must have at least one selected tag');
+                    break;
+                case 'noneTags':
+                    filter.noneTags = await pickTags(filter.noneTags, 'Brains must have none of the selected tags');
+                    break;
+                case 'pinned': {
+                    const pinned = await vscode.window.showQuickPick([
+                        { label: 'Any', _pinned: undefined as boolean | undefined },
+                        { label: '$(pinned) Pinned only', _pinned: true as boolean | undefined },
+                        { label: '$(pin) Not pinned', _pinned: false as boolean | undefined }
+                    ], { placeHolder: 'Pinned' });
+                    if (pinned) { filter.pinned = pinned._pinned; }
+                    break;
+                }
+                case 'statuses': {
+                    const statuses = await vscode.window.showQuickPick((Object.keys(BRAIN_STATUS_LABELS) as BrainStatus[]).map(s => ({
+                        label: `$(${BRAIN_STATUS_ICONS[s]}) ${BRAIN_STATUS_LABELS[s]}`,
+                        picked: (filter.statuses || []).includes(s),
+                        _status: s
+                    })), { canPickMany: true, placeHolder: 'Brains with any of the selected statuses (Archived ones only show up when selected)' });
+                    if (statuses) { filter.statuses = statuses.map(s => s._status); }
+                    break;
+                }
+                case 'updatedAfter':
+                    filter.updatedAfter = await pickDate(filter.updatedAfter, 'Last updated on or after');
+                    break;
+                case 'updatedBefore':
+                    filter.updatedBefore = await pickDate(filter.updatedBefore, 'Last updated before');
+                    break;
+                case 'unread':
+                    filter.unread = filter.unread ? undefined : true;
+                    break;
+                case 'clear':
+                    filter = {};
+                    break;
+            }
+        }
+    });
+
+    // Saved filters live in `antigravity.savedFilters`, so they can be shared through settings sync
+    async function storeSavedFilters(savedFilters: SavedFilter[]) {
+        await vscode.workspace.getConfiguration('antigravity').update('savedFilters', savedFilters, vscode.ConfigurationTarget.Global);
+    }
+
+    async function saveFilterAs(filter: BrainFilter): Promise<boolean> {
+        if (isEmptyFilter(filter)) {
+            vscode.window.showInformationMessage('Add some criteria before saving the filter.');
+            return false;
+        }
+        const savedFilters = treeProvider.getSavedFilters();
+        const name = await vscode.window.showInputBox({
+            prompt: `Save "${describeFilter(filter)}" as`,
+            placeHolder: 'e.g. Client work this week',
+            validateInput: value => value.trim() ? undefined : 'Name cannot be empty'
+        });
+        if (!name) { return false; }
+
+        const trimmed = name.trim();
+        if (savedFilters.some(f => f.name === trimmed)) {
+            const overwrite = await vscode.window.showWarningMessage(`Replace the saved filter "${trimmed}"?`, { modal: true }, 'Replace');
+            if (overwrite !== 'Replace') { return false; }
+        }
+        await storeSavedFilters([...savedFilters.filter(f => f.name !== trimmed), { name: trimmed, filter }]);
+        vscode.window.showInformationMessage(`🔎 Saved filter "${trimmed}"`);
+        return true;
+    }
+
+    // Picks a saved filter, unless invoked on one in the tree
+    async function pickSavedFilter(node: BrainNode | undefined, placeHolder: string): Promise<SavedFilter | undefined> {
+        const savedFilters = treeProvider.getSavedFilters();
+        if (node?.type === 'filter') {
+            return savedFilters.find(f => f.name === node.name);
+        }
+        if (savedFilters.length === 0) {
+            vscode.window.showInformationMessage('No saved filters yet. Build one with "Edit Filter..." and choose "Save as...".');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(savedFilters.map(f => ({
+            label: `$(filter) ${f.name}`,
+            description: describeFilter(f.filter),
+            _saved: f
+        })), { placeHolder });
+        return picked?._saved;
+    }
+
+    let saveFilterDisposable = vscode.commands.registerCommand('antigravity-brain.saveFilter', async () => {
+        await saveFilterAs(treeProvider.activeFilter || {});
+    });
+
+    let applySavedFilterDisposable = vscode.commands.registerCommand('antigravity-brain.applySavedFilter', async (node?: BrainNode) => {
+        const saved = await pickSavedFilter(node, 'Saved filter to apply');
+        if (saved) {
+            treeProvider.setFilter(saved.filter);
+        }
+    });
+
+    let deleteSavedFilterDisposable = vscode.commands.registerCommand('antigravity-brain.deleteSavedFilter', async (node?: BrainNode) => {
+        const saved = await pickSavedFilter(node, 'Saved filter to delete');
+        if (!saved) { return; }
+        const confirm = await vscode.window.showWarningMessage(`Delete the saved filter "${saved.name}"?`, { modal: true }, 'Delete');
+        if (confirm !== 'Delete') { return; }
+        await storeSavedFilters(treeProvider.getSavedFilters().filter(f => f.name !== saved.name));
+    });
+
+    let clearFilterDisposable = vscode.commands.registerCommand('antigravity-brain.clearFilter', () => {
+        treeProvider.setFilter(undefined);
+    });
+
+    // Unread: show only brains changed since last viewed, or mark them as read
+    let showUnreadDisposable = vscode.commands.registerCommand('antigravity-brain.showUnread', () => {
+        const current = treeProvider.activeFilter || {};
+        treeProvider.setFilter({ ...current, unread: current.unread ? undefined : true });
+    });
+
+    let markReadDisposable = vscode.commands.registerCommand('antigravity-brain.markAsRead', (node?: BrainNode, selected?: BrainNode[]) => {
+        unreadTracker.markRead(getSelectedBrains(brainManager, node, selected || treeView.selection));
+    });
+
+    let markAllReadDisposable = vscode.commands.registerCommand('antigravity-brain.markAllAsRead', () => {
+        unreadTracker.markAllRead();
+    });
+
+    // 16. Brain Search view: search, re-run recent searches, open results, replace
+    let searchInViewDisposable = vscode.commands.registerCommand('antigravity-brain.searchInView', async () => {
+        const current = searchResults.currentSearch;
+        const query = await vscode.window.showInputBox({
+            prompt: 'Search all brains — words, "phrase", /regex/, tag: brain: file: type: status: is:pinned after: before:',
+            value: current?.query,
+            validateInput: value => value.trim().length >= 2 ? undefined : 'Type at least 2 characters'
+        });
+        if (!query) { return; }
+        await showInSearchView(query, { caseSensitive: !!current?.options?.caseSensitive, wholeWord: !!current?.options?.wholeWord });
+    });
+
+    let rerunSearchDisposable = vscode.commands.registerCommand('antigravity-brain.rerunSearch', async (node?: SearchTreeNode) => {
+        if (node?.search) {
+            await searchResults.run(node.search);
+        } else {
+            await searchResults.rerun();
+        }
+    });
+
+    let clearSearchDisposable = vscode.commands.registerCommand('antigravity-brain.clearSearchResults', () => {
+        searchResults.clear();
+    });
+
+    let removeRecentSearchDisposable = vscode.commands.registerCommand('antigravity-brain.removeRecentSearch', async (node?: SearchTreeNode) => {
+        if (node?.search) {
+            await searchResults.removeRecentSearch(node.search.query);
+        }
+    });
+
+    let clearRecentSearchesDisposable = vscode.commands.registerCommand('antigravity-brain.clearRecentSearches', async () => {
+        await searchResults.clearRecentSearches();
+    });
+
+    let openSearchResultDisposable = vscode.commands.registerCommand('antigravity-brain.openSearchResult', async (filePath: string, lineNumber: number) => {
+        const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        let selection = new vscode.Range(0, 0, 0, 0);
+        if (lineNumber > 0 && lineNumber <= doc.lineCount) {
+            // Select the first match on the line
+            const line = doc.lineAt(lineNumber - 1);
+            const query = searchResults.currentQuery;
+            const ranges = query ? findMatchRanges(line.text, query) : [];
+            selection = ranges.length > 0
+                ? new vscode.Range(line.lineNumber, ranges[0][0], line.lineNumber, ranges[0][1])
+                : new vscode.Range(line.lineNumber, 0, line.lineNumber, 0);
+        }
+        await vscode.window.showTextDocument(doc, { selection, preview: true });
+    });
+
+    // Replace in the files of one brain, one file, or every result — with a preview of each changed line
+    let replaceDisposable = vscode.commands.registerCommand('antigravity-brain.replaceInBrain', async (node?: SearchTreeNode) => {
+        const query = searchResults.currentQuery;
+        if (!query || !searchResults.currentSearch) {
+            vscode.window.showInformationMessage('Search first — replace works on the results in the Brain Search view.');
+            return;
+        }
+        const pattern = getReplacePattern(query);
+        if (!pattern) {
+            vscode.window.showWarningMessage('Replace needs a single word, a "quoted phrase" or a /regex/ to know what to replace.');
+            return;
+        }
+
+        const files = searchResults.getFiles(node);
+        const scope = node?.type === 'brain' ? `brain "${node.label}"` : node?.type === 'file' ? node.label : `${files.length} files`;
+        const replacement = await vscode.window.showInputBox({
+            prompt: `Replace ${pattern.source} in ${scope} with (for a regex, $1... refer to groups)`,
+            placeHolder: 'Replacement (empty to delete)'
+        });
+        if (replacement === undefined) { return; }
+
+        // Every line that would change, in the editor's version of files with unsaved edits
+        const changes: { filePath: string; lineIndex: number; before: string; after: string }[] = [];
+        for (const filePath of files) {
+            let content: string;
+            try {
+                const openDoc = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && d.uri.fsPath === filePath);
+                content = openDoc ? openDoc.getText() : await fs.promises.readFile(filePath, 'utf8');
+            } catch (e) {
+                console.warn(`Failed to read ${filePath}`, e);
+                continue;
+            }
+            content.split('\n').map(line => line.replace(/\r$/, '')).forEach((line, lineIndex) => {
+                const after = line.replace(pattern, replacement);
+                if (after !== line) {
+                    changes.push({ filePath, lineIndex, before: line, after });
+                }
+            });
+        }
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage(`Nothing to replace in ${scope}.`);
+            return;
+        }
+
+        const preview = await vscode.window.showQuickPick(changes.map(c => ({
+            label: `${path.basename(c.filePath)}:${c.lineIndex + 1}`,
+            description: brainManager.getBrainForPath(c.filePath)?.title,
+            detail: `${c.before.trim()}  →  ${c.after.trim()}`,
+            picked: true,
+            _change: c
+        })), { canPickMany: true, matchOnDetail: true, title: `Replace in ${scope}: ${changes.length} lines`, placeHolder: 'Press Enter to replace the selected lines' });
+        if (!preview || preview.length === 0) { return; }
+
+        const byFile = new Map<string, typeof changes>();
+        preview.forEach(({ _change: c }) => byFile.set(c.filePath, [...(byFile.get(c.filePath) || []), c]));
+        // Edited through the documents, so unsaved edits are kept (and files with none are saved)
+        const failed: string[] = [];
+        let replaced = 0, skipped = 0, replacedFiles = 0;
+        for (const [filePath, fileChanges] of byFile) {
+            try {
+                const uri = vscode.Uri.file(filePath);
+                const doc = await vscode.workspace.openTextDocument(uri);
+                const wasDirty = doc.isDirty;
+                const edit = new vscode.WorkspaceEdit();
+                // Skip lines that changed since the preview was built
+                const current = fileChanges.filter(c => c.lineIndex < doc.lineCount && doc.lineAt(c.lineIndex).text === c.before);
+                current.forEach(c => edit.replace(uri, doc.lineAt(c.lineIndex).range, c.after));
+                skipped += fileChanges.length - current.length;
+                if (current.length === 0) { continue; }
+                if (!await vscode.workspace.applyEdit(edit)) {
+                    throw new Error(`Could not edit ${filePath}`);
+                }
+                if (!wasDirty) {
+                    await doc.save();
+                }
+                replaced += current.length;
+                replacedFiles++;
+            } catch (e) {
+                console.warn(`Failed to replace in ${filePath}`, e);
+                failed.push(path.basename(filePath));
+            }
+        }
+        const skippedNote = skipped > 0 ? ` (${skipped} lines changed since the preview and were skipped)` : '';
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`Replaced ${replaced} lines; failed: ${failed.join(', ')}${skippedNote}`);
+        } else {
+            vscode.window.showInformationMessage(`Replaced ${replaced} lines in ${replacedFiles} files${skippedNote}`);
+        }
+    });
+
+    // 17. Find Related Brains — brains whose contents resemble the selected (or current) brain's
+    let findRelatedDisposable = vscode.commands.registerCommand('antigravity-brain.findRelated', async (node?: BrainNode) => {
+        let brain = node ? brainManager.getBrain(node.path) || brainManager.getBrainForPath(node.path) : undefined;
+        if (!brain && vscode.window.activeTextEditor) {
+            brain = brainManager.getBrainForPath(vscode.window.activeTextEditor.document.uri.fsPath);
+        }
+        if (!brain) {
+            const all = (await brainManager.getBrains()).sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+            const picked = await vscode.window.showQuickPick(all.map(b => ({
+                label: b.title,
+                description: path.basename(b.path),
+                _brain: b
+            })), { placeHolder: 'Find brains related to...' });
+            if (!picked) { return; }
+            brain = picked._brain;
+        }
+
+        const related = brainManager.getRelatedBrains(brain.path, 20);
+        if (related.length === 0) {
+            vscode.window.showInformationMessage(`No brains look related to "${brain.title}".`);
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(related.map(r => ({
+            label: `$(${r.brain.pinned ? 'pin' : BRAIN_STATUS_ICONS[r.brain.status]}) ${r.brain.title}`,
+            description: `${Math.round(r.score * 100)}%`,
+            detail: `Shared: ${r.sharedTerms.join(', ')}`,
+            _brain: r.brain
+        })), { placeHolder: `Brains related to "${brain.title}"`, matchOnDetail: true });
+        if (!picked) { return; }
+
+        await vscode.commands.executeCommand('antigravity-brain.revealBrain', picked._brain.path);
+        const primaryFile = brainManager.getPrimaryFile(picked._brain.path);
+        if (fs.existsSync(primaryFile)) {
+            await vscode.window.showTextDocument(vscode.Uri.file(primaryFile), { preview: true });
+        }
+    });
+
+    // 18. Group By — date bucket, tag, status, source root or project
+    let groupByDisposable = vscode.commands.registerCommand('antigravity-brain.groupBy', async () => {
+        const current = treeProvider.getGrouping();
+        const picked = await vscode.window.showQuickPick((Object.keys(BRAIN_GROUPING_LABELS) as BrainGrouping[]).map(g => ({
+            label: `$(${BRAIN_GROUPING_ICONS[g]}) ${BRAIN_GROUPING_LABELS[g]}`,
+            description: g === current ? '✓ current' : undefined,
+            _grouping: g
+        })), { placeHolder: 'Group brains by' });
+        if (!picked) { return; }
+
+        treeProvider.setGrouping(picked._grouping);
+        await context.workspaceState.update('antigravity.brainGrouping', picked._grouping);
+    });
+
+    // 19. Bulk actions on the selected brains: archive, export, delete
+    let archiveDisposable = vscode.commands.registerCommand('antigravity-brain.archiveBrains', async (node?: BrainNode, selected?: BrainNode[]) => {
+        const brains = getSelectedBrains(brainManager, node, selected || treeView.selection).filter(b => b.status !== 'archived');
+        if (brains.length === 0) { return; }
+        if (!await confirmBrains(`Archive ${brains.length === 1 ? `"${brains[0].title}"` : `${brains.length} brains`}?`, brains, 'Archive')) { return; }
+        const failed = await updateBrains(brains, brain => brainManager.annotate(brain.path, { status: 'archived' }));
+        reportBulkResult('🗄️ Archived', brains, failed);
+    });
+
+    let exportDisposable = vscode.commands.registerCommand('antigravity-brain.exportBrains', async (node?: BrainNode, selected?: BrainNode[]) => {
+        let brains = getSelectedBrains(brainManager, node, selected || treeView.selection);
+        if (brains.length === 0) {
+            // Palette: choose the brains first
+            const all = (await brainManager.getBrains()).sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+            const picked = await vscode.window.showQuickPick(all.map(b => ({ label: b.title, description: path.basename(b.path), _brain: b })),
+                { canPickMany: true, placeHolder: 'Select brains to export' });
+            if (!picked || picked.length === 0) { return; }
+            brains = picked.map(p => p._brain);
+        }
+        const folder = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            openLabel: `Export ${brains.length} Brains Here`
+        });
+        if (!folder || folder.length === 0) { return; }
+
+        const target = folder[0].fsPath;
+        const existing = brains.filter(b => fs.existsSync(path.join(target, getExportFileName(b))));
+        if (existing.length > 0 && !await confirmBrains(`${existing.length} of these brains were already exported to ${target}. Overwrite?`, existing, 'Overwrite')) {
+            return;
+        }
+        const readFile = (filePath: string) => fs.promises.readFile(filePath, 'utf8').catch(() => undefined);
+        const failed = await updateBrains(brains, async brain => {
+            await fs.promises.writeFile(path.join(target, getExportFileName(brain)), await renderBrainMarkdown(brain, readFile), 'utf8');
+        });
+        reportBulkResult(`📤 Exported to ${target}`, brains, failed);
+    });
+
+    let deleteDisposable = vscode.commands.registerCommand('antigravity-brain.deleteBrains', async (node?: BrainNode, selected?: BrainNode[]) => {
+        const brains = getSelectedBrains(brainManager, node, selected || treeView.selection);
+        if (brains.length === 0) { return; }
+        const subject = brains.length === 1 ? `"${brains[0].title}"` : `${brains.length} brains`;
+        if (!await confirmBrains(`Delete ${subject}? Their folders are moved to the trash.`, brains, 'Delete')) { return; }
+        const failed = await updateBrains(brains, async brain => {
+            await vscode.workspace.fs.delete(vscode.Uri.file(brain.path), { recursive: true, useTrash: true });
+        });
+        reportBulkResult('🗑️ Deleted', brains, failed); // The watcher drops them from the tree
+    });
+
+    // 20. Open Tasks view: every open checklist item across brains, ticked off in place
+    const openTasks = new OpenTasksProvider(brainManager, context.workspaceState);
+    const tasksView = vscode.window.createTreeView('antigravity-tasks', {
+        treeDataProvider: openTasks,
+        showCollapseAll: true
+    });
+    const updateTasksView = () => {
+        const filter = openTasks.describeFilter();
+        tasksView.description = [openTasks.count > 0 ? `${openTasks.count} open` : undefined, filter].filter(p => p).join(' · ') || undefined;
+        vscode.commands.executeCommand('setContext', 'antigravity.tasksFiltered', filter !== undefined);
+    };
+    const tasksSubscription = openTasks.onDidChangeTreeData(updateTasksView);
+    updateTasksView();
+
+    // The item's line as it is now — the file may have changed since it was indexed
+    let openTaskDisposable = vscode.commands.registerCommand('antigravity-brain.openTask', async (node?: TaskTreeNode) => {
+        if (!node?.filePath || !node.item) { return; }
+        const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(node.filePath));
+        const lineIndex = findChecklistLine(doc.getText().split('\n'), node.item);
+        const line = lineIndex !== -1 ? lineIndex : Math.min(node.item.line, doc.lineCount - 1);
+        await vscode.window.showTextDocument(doc, { selection: new vscode.Range(line, 0, line, 0), preview: true });
+    });
+
+    const setTasksState = async (state: ChecklistState, node?: TaskTreeNode, selected?: readonly TaskTreeNode[]) => {
+        const nodes = (selected && selected.length > 0 && (!node || selected.some(n => n.id === node.id)) ? selected : node ? [node] : [])
+            .filter(n => n.type === 'task' && n.item && n.item.state !== state);
+        const failed: string[] = [];
+        for (const n of nodes) {
+            try {
+                await setTaskState(n.filePath!, n.item!, state);
+            } catch (e) {
+                console.warn(`Failed to update task in ${n.filePath}`, e);
+                failed.push(n.label);
+            }
+        }
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`Could not update ${failed.length} of ${nodes.length} tasks (the file changed?): ${failed.join(', ')}`);
+        }
+    };
+    let completeTaskDisposable = vscode.commands.registerCommand('antigravity-brain.completeTask', (node?: TaskTreeNode, selected?: TaskTreeNode[]) =>
+        setTasksState('done', node, selected || tasksView.selection));
+    let startTaskDisposable = vscode.commands.registerCommand('antigravity-brain.startTask', (node?: TaskTreeNode, selected?: TaskTreeNode[]) =>
+        setTasksState('inProgress', node, selected || tasksView.selection));
+    let reopenTaskDisposable = vscode.commands.registerCommand('antigravity-brain.reopenTask', (node?: TaskTreeNode, selected?: TaskTreeNode[]) =>
+        setTasksState('todo', node, selected || tasksView.selection));
+
+    let tasksGroupByDisposable = vscode.commands.registerCommand('antigravity-brain.tasksGroupBy', async () => {
+        const options: { label: string; _grouping: TaskGrouping }[] = [
+            { label: '$(project) Brain', _grouping: 'brain' },
+            { label: '$(tag) Tag', _grouping: 'tag' }
+        ];
+        const picked = await vscode.window.showQuickPick(options.map(o => ({
+            ...o,
+            description: o._grouping === openTasks.grouping ? '✓ current' : undefined
+        })), { placeHolder: 'Group open tasks by' });
+        if (picked) {
+            await openTasks.update({ grouping: picked._grouping });
+        }
+    });
+
+    let sortTasksDisposable = vscode.commands.registerCommand('antigravity-brain.sortTasks', async () => {
+        await openTasks.update({ sort: openTasks.sort === 'recent' ? 'oldest' : 'recent' });
+        vscode.window.setStatusBarMessage(`Open Tasks: ${openTasks.sort === 'recent' ? 'recently updated brains first' : 'oldest brains first'}`, 3000);
+    });
+
+    let filterTasksDisposable = vscode.commands.registerCommand('antigravity-brain.filterTasks', async () => {
+        const inProgressLabel = '$(sync) In progress only';
+        const picked = await vscode.window.showQuickPick([
+            { label: '$(search) Text…', description: openTasks.filter ? `"${openTasks.filter}"` : 'matches the task or its brain title' },
+            { label: inProgressLabel, description: openTasks.inProgressOnly ? '✓ on' : 'off' }
+        ], { placeHolder: 'Filter open tasks' });
+        if (!picked) { return; }
+        if (picked.label === inProgressLabel) {
+            await openTasks.update({ inProgressOnly: !openTasks.inProgressOnly });
+            return;
+        }
+        const text = await vscode.window.showInputBox({ prompt: 'Show tasks containing (empty for all)', value: openTasks.filter });
+        if (text !== undefined) {
+            await openTasks.update({ filter: text.trim() || undefined });
+        }
+    });
+
+    let clearTasksFilterDisposable = vscode.commands.registerCommand('antigravity-brain.clearTasksFilter', async () => {
+        await openTasks.update({ filter: undefined, inProgressOnly: false });
+    });
+
+    // 21. Open Version — any version of an artifact as a read-only document, from a file path
+    // (history viewer, search) or a picker over the versions of a tree file or the active file
+    let openVersionDisposable = vscode.commands.registerCommand('antigravity-brain.openVersion', async (target?: BrainNode | string) => {
+        if (typeof target === 'string') {
+            await versionProvider.open(target);
+            return;
+        }
+        const filePath = target ? target.path : getActiveFilePath();
+        const artifact = filePath
+            ? brainManager.getBrainForPath(filePath)?.artifacts.find(a => a.path === filePath || (a.resolvedVersions || []).includes(filePath))
+            : undefined;
+        if (!artifact) {
+            vscode.window.showWarningMessage('Open Version works on brain artifacts — select one in the tree or open it first.');
+            return;
+        }
+
+        // Newest first, with when each was written
+        const versions = getHistoryVersions(artifact, fs.existsSync(artifact.path)).reverse();
+        const items = await Promise.all(versions.map(async v => {
+            const stat = await fs.promises.stat(v.path).catch(() => undefined);
+            return { label: v.label, description: stat ? new Date(stat.mtimeMs).toLocaleString() : undefined, _path: v.path };
+        }));
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: `Open a version of ${artifact.name} (read-only)` });
+        if (picked) {
+            await versionProvider.open(picked._path);
+        }
+    });
+
+    // 22. Brain history in the Timeline panel (a proposed API: without it, the rest still works)
+    const timelineProvider = new BrainTimelineProvider(brainManager,
+        uri => uri.scheme === BRAIN_SCHEME ? versionProvider.getArtifactPath(uri) : uri.scheme === 'file' ? uri.fsPath : undefined);
+    let timelineDisposable: vscode.Disposable | undefined;
+    try {
+        timelineDisposable = vscode.workspace.registerTimelineProvider(['file', BRAIN_SCHEME], timelineProvider);
+    } catch (e) {
+        console.warn('Timeline API not available, brain history stays in the history viewer', e);
+    }
+
+    let diffVersionsDisposable = vscode.commands.registerCommand('antigravity-brain.diffVersions', async (fromPath?: string, toPath?: string, title?: string) => {
+        if (!fromPath || !toPath) { return; }
+        await versionProvider.diff(fromPath, toPath, title || `${path.basename(toPath)} (previous ↔ selected)`);
+    });
+
+    // Timeline items pass themselves; their id is the version's file
+    let openHistoryVersionDisposable = vscode.commands.registerCommand('antigravity-brain.openHistoryVersion', async (item?: vscode.TimelineItem) => {
+        if (item?.id) {
+            await versionProvider.open(item.id);
+        }
+    });
+
+    // Shortcut entries (e.g. brains listed under a tag) jump to the brain in the main list
+    let revealBrainDisposable = vscode.commands.registerCommand('antigravity-brain.revealBrain', async (brainPath: string) => {
+        const node = treeProvider.getBrainNode(brainPath);
+        if (node) {
+            await treeView.reveal(node, { select: true, focus: true, expand: true });
+        }
+    });
+
+    // Pick up added/removed roots without a reload
+    let configDisposable = vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('antigravity.annotations.store')) {
+            brainManager.setAnnotationStore(loadAnnotationStore(context.globalState, readFrontmatter));
+        }
+        if (e.affectsConfiguration('antigravity.brainRoots') || e.affectsConfiguration('antigravity.brainPath')) {
+            brainManager.setSources(loadBrainSources()).catch(e => {
+                vscode.window.showErrorMessage(`Could not scan the brain roots: ${e instanceof Error ? e.message.split('\n')[0] : e}`);
+            });
+        } else if (e.affectsConfiguration('antigravity.rootGrouping') || e.affectsConfiguration('antigravity.tags.colors')
+            || e.affectsConfiguration('antigravity.savedFilters') || e.affectsConfiguration('antigravity.showRelatedBrains')) {
+            treeProvider.refresh();
+        }
+    });
+
 	context.subscriptions.push(disposable);
     context.subscriptions.push(historyDisposable);
     context.subscriptions.push(searchDisposable);
@@ -422,7 +1464,132 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(unpinDisposable);
     context.subscriptions.push(tagsDisposable);
     context.subscriptions.push(filterTagDisposable);
+    context.subscriptions.push(migrateDisposable);
+    context.subscriptions.push(statusDisposable);
+    context.subscriptions.push(organizeTagsDisposable);
+    context.subscriptions.push(editFilterDisposable);
+    context.subscriptions.push(saveFilterDisposable);
+    context.subscriptions.push(applySavedFilterDisposable);
+    context.subscriptions.push(deleteSavedFilterDisposable);
+    context.subscriptions.push(clearFilterDisposable);
+    context.subscriptions.push(showUnreadDisposable);
+    context.subscriptions.push(markReadDisposable);
+    context.subscriptions.push(markAllReadDisposable);
+    context.subscriptions.push(searchInViewDisposable);
+    context.subscriptions.push(rerunSearchDisposable);
+    context.subscriptions.push(clearSearchDisposable);
+    context.subscriptions.push(removeRecentSearchDisposable);
+    context.subscriptions.push(clearRecentSearchesDisposable);
+    context.subscriptions.push(openSearchResultDisposable);
+    context.subscriptions.push(replaceDisposable);
+    context.subscriptions.push(findRelatedDisposable);
+    context.subscriptions.push(groupByDisposable);
+    context.subscriptions.push(archiveDisposable);
+    context.subscriptions.push(exportDisposable);
+    context.subscriptions.push(deleteDisposable);
+    context.subscriptions.push(openTaskDisposable);
+    context.subscriptions.push(completeTaskDisposable);
+    context.subscriptions.push(startTaskDisposable);
+    context.subscriptions.push(reopenTaskDisposable);
+    context.subscriptions.push(tasksGroupByDisposable);
+    context.subscriptions.push(sortTasksDisposable);
+    context.subscriptions.push(filterTasksDisposable);
+    context.subscriptions.push(clearTasksFilterDisposable);
+    context.subscriptions.push(openVersionDisposable);
+    context.subscriptions.push(diffVersionsDisposable);
+    context.subscriptions.push(openHistoryVersionDisposable);
+    context.subscriptions.push(revealBrainDisposable);
+    context.subscriptions.push(filterSubscription);
     context.subscriptions.push(treeView);
+    context.subscriptions.push(treeProvider);
+    context.subscriptions.push(searchProvider);
+    context.subscriptions.push(searchView);
+    context.subscriptions.push(searchResults);
+    context.subscriptions.push(tasksSubscription);
+    context.subscriptions.push(tasksView);
+    context.subscriptions.push(openTasks);
+    context.subscriptions.push(brainWatcher);
+    context.subscriptions.push(activityMonitor);
+    context.subscriptions.push(unreadSubscription);
+    context.subscriptions.push(decorationDisposable);
+    context.subscriptions.push(versionProviderDisposable);
+    context.subscriptions.push(versionProvider);
+    if (timelineDisposable) {
+        context.subscriptions.push(timelineDisposable);
+    }
+    context.subscriptions.push(timelineProvider);
+    context.subscriptions.push(unreadTracker);
+    context.subscriptions.push(configDisposable);
+    context.subscriptions.push(brainManager);
+}
+
+/**
+ * Updates pins/tags in the active annotation store, reporting (instead of throwing) failures,
+ * e.g. task.md frontmatter that is not valid YAML.
+ */
+async function annotateBrain(brainManager: BrainManager, brainPath: string, updates: Partial<BrainAnnotations>): Promise<boolean> {
+    try {
+        await brainManager.annotate(brainPath, updates); // The tree re-renders from the change event
+        return true;
+    } catch (e) {
+        vscode.window.showErrorMessage(`Could not update ${brainPath}: ${e instanceof Error ? e.message.split('\n')[0] : e}`);
+        return false;
+    }
+}
+
+// Brains named in a confirmation before the rest are summarized
+const MAX_LISTED_BRAINS = 15;
+
+/**
+ * Brains a tree command applies to: every selected brain when the clicked node is part of
+ * the selection (or when run from the palette), else just the clicked one. Shortcuts count as their brain.
+ */
+function getSelectedBrains(brainManager: BrainManager, node?: BrainNode, selected?: readonly BrainNode[]): Brain[] {
+    const nodes = selected && selected.length > 0 && (!node || selected.some(n => n.id === node.id)) ? selected : node ? [node] : [];
+    const brains = new Map<string, Brain>();
+    for (const n of nodes) {
+        const brain = n.type === 'directory' ? brainManager.getBrain(n.path) : undefined;
+        if (brain) {
+            brains.set(brain.path, brain);
+        }
+    }
+    return Array.from(brains.values());
+}
+
+/**
+ * Modal confirmation listing the titles of the brains an action will touch.
+ */
+async function confirmBrains(message: string, brains: Brain[], action: string): Promise<boolean> {
+    const titles = brains.slice(0, MAX_LISTED_BRAINS).map(b => `• ${b.title}`);
+    if (brains.length > MAX_LISTED_BRAINS) {
+        titles.push(`…and ${brains.length - MAX_LISTED_BRAINS} more`);
+    }
+    const choice = await vscode.window.showWarningMessage(message, { modal: true, detail: titles.join('\n') }, action);
+    return choice === action;
+}
+
+/**
+ * Runs `update` on each brain in turn, carrying on past failures. Returns the titles of those that failed.
+ */
+async function updateBrains(brains: Brain[], update: (brain: Brain) => Promise<void>): Promise<string[]> {
+    const failed: string[] = [];
+    for (const brain of brains) {
+        try {
+            await update(brain);
+        } catch (e) {
+            console.warn(`Failed to update ${brain.path}`, e);
+            failed.push(brain.title);
+        }
+    }
+    return failed;
+}
+
+function reportBulkResult(done: string, brains: Brain[], failed: string[]): void {
+    if (failed.length > 0) {
+        vscode.window.showWarningMessage(`${done}: ${brains.length - failed.length} of ${brains.length} brains; failed: ${failed.join(', ')}`);
+    } else {
+        vscode.window.showInformationMessage(brains.length === 1 ? `${done}: ${brains[0].title}` : `${done}: ${brains.length} brains`);
+    }
 }
 
 export function deactivate() {}
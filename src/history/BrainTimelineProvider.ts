@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BrainManager } from '../brain/BrainManager';
+import { BrainIndexChangeEvent } from '../brain/BrainIndex';
+import { getHistoryVersions } from '../brain/HistorySearch';
+import { getDiffStats } from './DiffStats';
+
+/**
+ * Every `.resolved.N` version of a brain artifact in VS Code's Timeline panel, with its time and
+ * line changes. Selecting one diffs it against the version before.
+ *
+ * Timeline is a proposed API (`enabledApiProposals: ["timeline"]`).
+ */
+export class BrainTimelineProvider implements vscode.TimelineProvider, vscode.Disposable {
+    readonly id = 'antigravity-brain.history';
+    readonly label = 'Brain History';
+
+    private _onDidChange = new vscode.EventEmitter<vscode.TimelineChangeEvent | undefined>();
+    readonly onDidChange: vscode.Event<vscode.TimelineChangeEvent | undefined> = this._onDidChange.event;
+
+    private indexSubscription: vscode.Disposable;
+
+    /**
+     * @param getArtifactPath The artifact a document belongs to: the file itself, or what a `brain:` version stands for.
+     */
+    constructor(private brainManager: BrainManager, private getArtifactPath: (uri: vscode.Uri) => string | undefined) {
+        this.indexSubscription = brainManager.onDidChange(e => this.onIndexChange(e));
+    }
+
+    dispose(): void {
+        this.indexSubscription.dispose();
+        this._onDidChange.dispose();
+    }
+
+    async provideTimeline(uri: vscode.Uri, _options: vscode.TimelineOptions, token: vscode.CancellationToken): Promise<vscode.Timeline> {
+        const filePath = this.getArtifactPath(uri);
+        const artifact = filePath
+            ? this.brainManager.getBrainForPath(filePath)?.artifacts.find(a => a.path === filePath || (a.resolvedVersions || []).includes(filePath))
+            : undefined;
+        if (!artifact) {
+            return { items: [] };
+        }
+
+        const items: vscode.TimelineItem[] = [];
+        let previous: { path: string; label: string; content: string } | undefined;
+        for (const version of getHistoryVersions(artifact, fs.existsSync(artifact.path))) {
+            if (token.isCancellationRequested) {
+                return { items: [] };
+            }
+            let stat: fs.Stats;
+            let content: string;
+            try {
+                [stat, content] = await Promise.all([fs.promises.stat(version.path), fs.promises.readFile(version.path, 'utf8')]);
+            } catch (e) {
+                console.warn(`Failed to read version: ${version.path}`, e);
+                continue;
+            }
+
+            const item = new vscode.TimelineItem(version.label, stat.mtimeMs);
+            item.id = version.path;
+            item.iconPath = new vscode.ThemeIcon(version.path === artifact.path ? 'circle-filled' : 'git-commit');
+            item.contextValue = 'brainVersion';
+            if (previous) {
+                const stats = getDiffStats(previous.content, content);
+                item.description = `+${stats.added} −${stats.removed}`;
+                item.tooltip = `${artifact.name} — ${version.label}\n${new Date(stat.mtimeMs).toLocaleString()}\n${stats.added} lines added, ${stats.removed} removed since ${previous.label}`;
+                item.command = {
+                    command: 'antigravity-brain.diffVersions',
+                    title: 'Compare with Previous Version',
+                    arguments: [previous.path, version.path, `${artifact.name} (${previous.label} ↔ ${version.label})`]
+                };
+            } else {
+                // The first version has nothing to compare with, so it just opens
+                item.tooltip = `${artifact.name} — ${version.label}\n${new Date(stat.mtimeMs).toLocaleString()}\nFirst version`;
+                item.command = { command: 'antigravity-brain.openVersion', title: 'Open Version', arguments: [version.path] };
+            }
+            items.push(item);
+            previous = { path: version.path, label: version.label, content };
+        }
+        return { items: items.reverse() };
+    }
+
+    private onIndexChange(e: BrainIndexChangeEvent): void {
+        if (e.reset) {
+            this._onDidChange.fire(undefined);
+            return;
+        }
+        // The artifact itself, and any read-only version of it that is open
+        const artifacts = new Set(e.changes.map(c => c.nodePath));
+        artifacts.forEach(artifactPath => this._onDidChange.fire({ uri: vscode.Uri.file(artifactPath) }));
+        for (const doc of vscode.workspace.textDocuments) {
+            const artifactPath = doc.uri.scheme !== 'file' ? this.getArtifactPath(doc.uri) : undefined;
+            if (artifactPath && artifacts.has(artifactPath)) {
+                this._onDidChange.fire({ uri: doc.uri });
+            }
+        }
+    }
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrainManager } from '../brain/BrainManager';
+import { BrainIndexChangeEvent } from '../brain/BrainIndex';
+import { getArtifactKind } from '../brain/ArtifactKinds';
+import { Brain, BrainNode } from '../brain/types';
+
+export const BRAIN_SCHEME = 'brain';
+
+interface VersionLocation {
+    artifactPath: string;   // The artifact (task.md)
+    filePath: string;       // The file holding this version (task.md.resolved.3, or the artifact itself)
+}
+
+/**
+ * Read-only documents for every version of an artifact, addressed by brain rather than by file:
+ * `brain:/<brainId>/task.md (Version 3 — 2026-10-01 14:20)?version=3`. `version` is the 1-based
+ * history index, as in the history viewer; without it the document is the current file.
+ *
+ * The parenthesized label only gives the editor tab a readable title (it cannot contain `/`,
+ * hence the dashed date) and is ignored when resolving.
+ */
+export class BrainVersionProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    private locations = new Map<string, VersionLocation>(); // URI -> what it was last resolved to
+    private indexSubscription: vscode.Disposable;
+
+    constructor(private brainManager: BrainManager) {
+        this.indexSubscription = brainManager.onDidChange(e => this.onIndexChange(e));
+    }
+
+    dispose(): void {
+        this.indexSubscription.dispose();
+        this._onDidChange.dispose();
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const { brainId, relativePath, version } = parseVersionUri(uri);
+        const brain = (await this.brainManager.getBrains()).find(b => b.id === brainId);
+        const artifact = brain?.artifacts.find(a => getRelativePath(brain, a) === relativePath);
+        const filePath = artifact && (version === undefined ? artifact.path : (artifact.resolvedVersions || [])[version - 1]);
+        if (!artifact || !filePath) {
+            this.locations.delete(uri.toString());
+            throw new Error(`${relativePath}${version !== undefined ? ` version ${version}` : ''} no longer exists in brain ${brainId}`);
+        }
+        this.locations.set(uri.toString(), { artifactPath: artifact.path, filePath });
+        return fs.promises.readFile(filePath, 'utf8');
+    }
+
+    /**
+     * The read-only URI of an artifact or one of its `.resolved.N` versions; undefined for files outside any brain.
+     */
+    public async getUri(filePath: string): Promise<vscode.Uri | undefined> {
+        const brain = this.brainManager.getBrainForPath(filePath);
+        const artifact = brain?.artifacts.find(a => a.path === filePath || (a.resolvedVersions || []).includes(filePath));
+        if (!brain || !artifact) {
+            return undefined;
+        }
+
+        const index = (artifact.resolvedVersions || []).indexOf(filePath);
+        let date = '';
+        try {
+            date = ` — ${formatDate((await fs.promises.stat(filePath)).mtimeMs)}`;
+        } catch (_) { /* Gone already; opening it reports that */ }
+        const label = index === -1 ? `Current${date}` : `Version ${index + 1}${date}`;
+        return vscode.Uri.from({
+            scheme: BRAIN_SCHEME,
+            path: `/${brain.id}/${getRelativePath(brain, artifact)} (${label})`,
+            query: index === -1 ? '' : `version=${index + 1}`
+        });
+    }
+
+    /**
+     * Opens a version read-only, in Markdown mode for Markdown artifacts (so the preview works).
+     */
+    public async open(filePath: string): Promise<void> {
+        const doc = await this.openDocument(filePath);
+        if (doc) {
+            await vscode.window.showTextDocument(doc, { preview: true });
+        }
+    }
+
+    /**
+     * Opens the native diff editor between two versions.
+     */
+    public async diff(fromPath: string, toPath: string, title: string): Promise<void> {
+        const from = await this.openDocument(fromPath);
+        const to = from && await this.openDocument(toPath);
+        if (from && to) {
+            await vscode.commands.executeCommand('vscode.diff', from.uri, to.uri, title, { preview: true });
+        }
+    }
+
+    private async openDocument(filePath: string): Promise<vscode.TextDocument | undefined> {
+        const uri = await this.getUri(filePath);
+        if (!uri) {
+            vscode.window.showWarningMessage(`Cannot open ${path.basename(filePath)}: file not in any Brain folder`);
+            return undefined;
+        }
+        // The label suffix hides the extension, so the language is set here
+        const doc = await vscode.workspace.openTextDocument(uri);
+        if (getArtifactKind(filePath) === 'markdown' && doc.languageId !== 'markdown') {
+            return vscode.languages.setTextDocumentLanguage(doc, 'markdown');
+        }
+        return doc;
+    }
+
+    /**
+     * The artifact an opened version document belongs to.
+     */
+    public getArtifactPath(uri: vscode.Uri): string | undefined {
+        return this.locations.get(uri.toString())?.artifactPath;
+    }
+
+    private onIndexChange(e: BrainIndexChangeEvent): void {
+        // Current-file documents follow the file; a rescan may renumber anything
+        const changed = new Set(e.changes.map(c => c.path));
+        for (const doc of vscode.workspace.textDocuments) {
+            const location = doc.uri.scheme === BRAIN_SCHEME ? this.locations.get(doc.uri.toString()) : undefined;
+            if (location && (e.reset || changed.has(location.filePath))) {
+                this._onDidChange.fire(doc.uri);
+            }
+        }
+    }
+}
+
+/**
+ * The parts of a `brain:` URI.
+ */
+export function parseVersionUri(uri: vscode.Uri): { brainId: string; relativePath: string; version?: number } {
+    const segments = uri.path.split('/').filter(s => s);
+    const versionMatch = uri.query.match(/(?:^|&)version=(\d+)/);
+    return {
+        brainId: segments[0] || '',
+        relativePath: segments.slice(1).join('/').replace(/ \((?:Version \d+|Current)[^)]*\)$/, ''),
+        version: versionMatch ? parseInt(versionMatch[1], 10) : undefined
+    };
+}
+
+// Relative to the brain folder with `/` separators; a single-note brain is just its own file name
+function getRelativePath(brain: Brain, artifact: BrainNode): string {
+    return (path.relative(brain.path, artifact.path) || path.basename(artifact.path)).split(path.sep).join('/');
+}
+
+function formatDate(time: number): string {
+    const d = new Date(time);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
@@ -0,0 +1,19 @@
+import * as Diff from 'diff';
+
+export interface DiffStats {
+    added: number;
+    removed: number;
+}
+
+/**
+ * Lines added and removed between two versions, as in `git diff --stat`.
+ */
+export function getDiffStats(fromContent: string, toContent: string): DiffStats {
+    let added = 0, removed = 0;
+    Diff.diffLines(fromContent, toContent).forEach(part => {
+        const lineCount = part.value.replace(/\n$/, '').split('\n').length;
+        if (part.added) { added += lineCount; }
+        else if (part.removed) { removed += lineCount; }
+    });
+    return { added, removed };
+}
@@ -3,6 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as Diff from 'diff';
 import { BrainNode } from '../brain/types';
+import { ARTIFACT_TYPE_LABELS } from '../brain/ArtifactMetadata';
+import { getDiffStats } from './DiffStats';
 
 interface FileVersion {
     id: string;
@@ -10,6 +12,14 @@ interface FileVersion {
     timestamp: number;
 }
 
+/**
+ * Versions to compare when the panel opens (file paths); defaults to the last two.
+ */
+export interface VersionPair {
+    fromId: string;
+    toId: string;
+}
+
 export class HistoryWebviewManager {
     public static currentPanel: HistoryWebviewManager | undefined;
     private readonly _panel: vscode.WebviewPanel;
@@ -17,7 +27,7 @@ export class HistoryWebviewManager {
     private _versions: FileVersion[] = [];
     private _disposables: vscode.Disposable[] = [];
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, mainNode: BrainNode) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, mainNode: BrainNode, selection?: VersionPair) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._panel.webview.html = this._getHtmlForWebview();
@@ -29,23 +39,26 @@ export class HistoryWebviewManager {
                     case 'requestContent':
                         this._handleContentRequest(message.mode, message.layout, message.fromId, message.toId);
                         return;
+                    case 'openVersion':
+                        vscode.commands.executeCommand('antigravity-brain.openVersion', message.id);
+                        return;
                 }
             },
             null,
             this._disposables
         );
 
-        this._loadVersions(mainNode);
+        this._loadVersions(mainNode, selection);
     }
 
-    public static createOrShow(extensionUri: vscode.Uri, node: BrainNode) {
+    public static createOrShow(extensionUri: vscode.Uri, node: BrainNode, selection?: VersionPair) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
 
         if (HistoryWebviewManager.currentPanel) {
             HistoryWebviewManager.currentPanel._panel.reveal(column);
-            HistoryWebviewManager.currentPanel._loadVersions(node);
+            HistoryWebviewManager.currentPanel._loadVersions(node, selection);
             return;
         }
 
@@ -60,10 +73,10 @@ export class HistoryWebviewManager {
             }
         );
 
-        HistoryWebviewManager.currentPanel = new HistoryWebviewManager(panel, extensionUri, node);
+        HistoryWebviewManager.currentPanel = new HistoryWebviewManager(panel, extensionUri, node, selection);
     }
 
-    private async _loadVersions(node: BrainNode) {
+    private async _loadVersions(node: BrainNode, selection?: VersionPair) {
         this._versions = [];
 
         // Collect numbered .resolved.N versions (history)
@@ -91,30 +104,30 @@ export class HistoryWebviewManager {
             const mainStat = fs.statSync(node.path);
             const d = new Date(mainStat.mtime.getTime());
             const dateStr = `${d.getFullYear()}/${(d.getMonth()+1).toString().padStart(2,'0')}/${d.getDate().toString().padStart(2,'0')} ${d.getHours().toString().padStart(2,'0')}:${d.getMinutes().toString().padStart(2,'0')}`;
+            // Sidecar details (artifact version/type) make the current entry easier to match up
+            const details: string[] = [];
+            if (node.metadata?.version !== undefined) { details.push(`v${node.metadata.version}`); }
+            if (node.metadata?.artifactType) { details.push(ARTIFACT_TYPE_LABELS[node.metadata.artifactType]); }
+            const detailStr = details.length > 0 ? ` (${details.join(' · ')})` : '';
             this._versions.push({
                 id: node.path,
-                label: `Current — ${dateStr}`,
+                label: `Current${detailStr} — ${dateStr}`,
                 timestamp: mainStat.mtime.getTime()
             });
         }
 
         this._panel.title = `History: ${node.name}`;
-        this._panel.webview.postMessage({ command: 'initVersions', versions: this._versions });
+        if (node.metadata?.summary) {
+            this._panel.title += ` — ${node.metadata.summary}`;
+        }
+        this._panel.webview.postMessage({ command: 'initVersions', versions: this._versions, selection });
     }
 
     // ─── Content Request Router ───
     private _handleContentRequest(mode: string, layout: string, fromId: string, toId: string) {
         // Compute diff stats (line counts) once and send to webview
         try {
-            const fromContent = fs.readFileSync(fromId, 'utf8');
-            const toContent = fs.readFileSync(toId, 'utf8');
-            const diff = Diff.diffLines(fromContent, toContent);
-            let added = 0, removed = 0;
-            diff.forEach(part => {
-                const lineCount = part.value.replace(/\n$/, '').split('\n').length;
-                if (part.added) { added += lineCount; }
-                else if (part.removed) { removed += lineCount; }
-            });
+            const { added, removed } = getDiffStats(fs.readFileSync(fromId, 'utf8'), fs.readFileSync(toId, 'utf8'));
             this._panel.webview.postMessage({ command: 'setDiffStats', added, removed });
         } catch (_) { /* ignore, individual methods handle their own errors */ }
 
@@ -596,6 +609,10 @@ export class HistoryWebviewManager {
             <button class="btn btn-secondary active" id="unifiedBtn" title="Unified (single page)">Unified</button>
             <button class="btn btn-secondary" id="splitBtn" title="Side-by-side">Split</button>
         </div>
+
+        <div class="divider"></div>
+
+        <button class="btn btn-secondary" id="openVersionBtn" title="Open the &quot;To&quot; version read-only in an editor">Open</button>
     </div>
 
     <div class="content-wrapper">
@@ -672,6 +689,11 @@ export class HistoryWebviewManager {
         unifiedBtn.addEventListener('click', () => setLayout('unified'));
         splitBtn.addEventListener('click', () => setLayout('split'));
 
+        // Open the "To" version as a document
+        document.getElementById('openVersionBtn').addEventListener('click', () => {
+            vscode.postMessage({ command: 'openVersion', id: toSelect.value });
+        });
+
         // Synchronized scrolling for split view
         leftPanel.addEventListener('scroll', () => {
             if (syncingScroll) return;
@@ -716,7 +738,11 @@ export class HistoryWebviewManager {
             if (msg.command === 'initVersions') {
                 versions = msg.versions;
                 renderDropdowns();
-                if (versions.length >= 2) {
+                const selection = msg.selection;
+                if (selection && versions.some(v => v.id === selection.fromId) && versions.some(v => v.id === selection.toId)) {
+                    fromSelect.value = selection.fromId;
+                    toSelect.value = selection.toId;
+                } else if (versions.length >= 2) {
                     fromSelect.value = versions[versions.length - 2].id;
                     toSelect.value = versions[versions.length - 1].id;
                 } else if (versions.length === 1) {
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SearchFilters, SearchProvider, SearchResult } from '../brain/SearchProvider';
+import { BrainManager } from '../brain/BrainManager';
+import { BrainSearchQuery, findMatchRanges, parseSearchQuery, SearchOptions } from '../brain/SearchQuery';
+
+const RECENT_SEARCHES_KEY = 'antigravity.recentSearches';
+const MAX_RECENT_SEARCHES = 10;
+const MAX_RESULTS = 500;
+// Re-run the search this long after the last artifact change
+const RERUN_DELAY_MS = 500;
+
+/**
+ * A search as typed, with the toggles and filters it ran with.
+ */
+export interface SavedSearch {
+    query: string;
+    options?: SearchOptions;
+    filters?: SearchFilters;
+}
+
+export interface SearchTreeNode {
+    id: string;
+    type: 'summary' | 'brain' | 'file' | 'match' | 'recentSection' | 'recent';
+    label: string;
+    brainPath?: string;
+    filePath?: string;
+    result?: SearchResult;      // 'match' nodes
+    search?: SavedSearch;       // 'recent' nodes
+    children?: SearchTreeNode[];
+}
+
+/**
+ * The "Brain Search" view: results of the last search grouped by brain and file,
+ * plus recent searches to run again. Results follow artifact changes.
+ */
+export class SearchResultsProvider implements vscode.TreeDataProvider<SearchTreeNode>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<SearchTreeNode | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<SearchTreeNode | undefined | void> = this._onDidChangeTreeData.event;
+
+    private current: SavedSearch | undefined;
+    private parsed: BrainSearchQuery | undefined;
+    private results: SearchResult[] = [];
+    private roots: SearchTreeNode[] = [];
+    private rerunTimer: NodeJS.Timeout | undefined;
+    private indexSubscription: vscode.Disposable;
+
+    constructor(private brainManager: BrainManager, private searchProvider: SearchProvider, private memento: vscode.Memento) {
+        this.indexSubscription = brainManager.onDidChange(() => {
+            if (!this.current) {
+                return;
+            }
+            if (this.rerunTimer) {
+                clearTimeout(this.rerunTimer);
+            }
+            this.rerunTimer = setTimeout(() => {
+                this.rerunTimer = undefined;
+                this.rerun();
+            }, RERUN_DELAY_MS);
+        });
+        this.buildTree();
+    }
+
+    dispose(): void {
+        if (this.rerunTimer) {
+            clearTimeout(this.rerunTimer);
+        }
+        this.indexSubscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public get currentSearch(): SavedSearch | undefined {
+        return this.current;
+    }
+
+    public get currentQuery(): BrainSearchQuery | undefined {
+        return this.parsed;
+    }
+
+    public getRecentSearches(): SavedSearch[] {
+        return this.memento.get<SavedSearch[]>(RECENT_SEARCHES_KEY) || [];
+    }
+
+    public async clearRecentSearches(): Promise<void> {
+        await this.memento.update(RECENT_SEARCHES_KEY, []);
+        this.buildTree();
+    }
+
+    public async removeRecentSearch(query: string): Promise<void> {
+        await this.memento.update(RECENT_SEARCHES_KEY, this.getRecentSearches().filter(s => s.query !== query));
+        this.buildTree();
+    }
+
+    /**
+     * Runs a search and shows its results. Returns the number of matches.
+     */
+    public async run(search: SavedSearch): Promise<number> {
+        this.current = search;
+        await this.remember(search);
+        await this.rerun();
+        return this.results.length;
+    }
+
+    public async rerun(): Promise<void> {
+        if (!this.current) {
+            return;
+        }
+        this.parsed = parseSearchQuery(this.current.query, this.current.options);
+        try {
+            this.results = await this.searchProvider.search(this.parsed, MAX_RESULTS, this.current.filters);
+        } catch (e) {
+            console.warn('Search error:', e);
+            this.results = [];
+        }
+        this.buildTree();
+    }
+
+    public clear(): void {
+        this.current = undefined;
+        this.parsed = undefined;
+        this.results = [];
+        this.buildTree();
+    }
+
+    /**
+     * Files with results under a brain or file node, or all of them.
+     */
+    public getFiles(node?: SearchTreeNode): string[] {
+        const results = this.results.filter(r =>
+            !node || (node.type === 'brain' ? r.brainPath === node.brainPath : node.type === 'file' ? r.filePath === node.filePath : true));
+        return Array.from(new Set(results.map(r => r.filePath)));
+    }
+
+    getTreeItem(element: SearchTreeNode): vscode.TreeItem {
+        const childCount = element.children ? element.children.length : 0;
+        switch (element.type) {
+            case 'summary': {
+                const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon('search');
+                item.contextValue = 'searchSummary';
+                item.tooltip = this.parsed && this.parsed.errors.length > 0 ? this.parsed.errors.join('\n') : undefined;
+                return item;
+            }
+            case 'brain': {
+                const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('folder');
+                item.description = `${childCount} files`;
+                item.tooltip = element.brainPath;
+                item.contextValue = 'searchBrain';
+                return item;
+            }
+            case 'file': {
+                const matchCount = (element.children || []).filter(c => c.result?.matchType === 'content').length;
+                const item = new vscode.TreeItem(element.label, childCount > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+                item.resourceUri = vscode.Uri.file(element.filePath!);
+                item.iconPath = vscode.ThemeIcon.File;
+                item.description = matchCount > 0 ? `${matchCount} matches` : 'file name';
+                item.tooltip = element.filePath;
+                item.contextValue = 'searchFile';
+                item.command = { command: 'antigravity-brain.openSearchResult', title: 'Open', arguments: [element.filePath, 0] };
+                return item;
+            }
+            case 'match': {
+                const result = element.result!;
+                const highlights = this.parsed ? findMatchRanges(result.matchLine, this.parsed) : [];
+                const item = new vscode.TreeItem({ label: result.matchLine || ' ', highlights }, vscode.TreeItemCollapsibleState.None);
+                item.description = `${result.lineNumber}`;
+                item.tooltip = this.getContextTooltip(result);
+                item.contextValue = 'searchMatch';
+                item.command = { command: 'antigravity-brain.openSearchResult', title: 'Open', arguments: [result.filePath, result.lineNumber] };
+                return item;
+            }
+            case 'recentSection': {
+                const item = new vscode.TreeItem(element.label, this.current
+                    ? vscode.TreeItemCollapsibleState.Collapsed
+                    : vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('history');
+                item.contextValue = 'searchRecentSection';
+                return item;
+            }
+            case 'recent': {
+                const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon('search');
+                const toggles = [element.search?.options?.caseSensitive ? 'Match Case' : '', element.search?.options?.wholeWord ? 'Whole Word' : ''];
+                item.description = toggles.filter(t => t).join(' · ');
+                item.contextValue = 'searchRecent';
+                item.command = { command: 'antigravity-brain.rerunSearch', title: 'Search Again', arguments: [element] };
+                return item;
+            }
+        }
+    }
+
+    getChildren(element?: SearchTreeNode): SearchTreeNode[] {
+        return element ? element.children || [] : this.roots;
+    }
+
+    private buildTree(): void {
+        this.roots = [];
+        if (this.current) {
+            const brains = new Map<string, SearchTreeNode>();
+            const files = new Map<string, SearchTreeNode>();
+            for (const result of this.results) {
+                let brainNode = brains.get(result.brainPath);
+                if (!brainNode) {
+                    brainNode = { id: `brain:${result.brainPath}`, type: 'brain', label: result.brainName, brainPath: result.brainPath, children: [] };
+                    brains.set(result.brainPath, brainNode);
+                }
+                let fileNode = files.get(result.filePath);
+                if (!fileNode) {
+                    const relative = path.relative(result.brainPath, result.filePath) || result.fileName;
+                    fileNode = { id: `file:${result.filePath}`, type: 'file', label: relative, brainPath: result.brainPath, filePath: result.filePath, children: [] };
+                    files.set(result.filePath, fileNode);
+                    brainNode.children!.push(fileNode);
+                }
+                if (result.matchType === 'content') {
+                    fileNode.children!.push({
+                        id: `match:${result.filePath}:${result.lineNumber}`,
+                        type: 'match',
+                        label: result.matchLine,
+                        filePath: result.filePath,
+                        result
+                    });
+                }
+            }
+
+            const matchCount = this.results.filter(r => r.matchType === 'content').length;
+            const limit = this.results.length >= MAX_RESULTS ? ' (first results only)' : '';
+            const warning = this.parsed && this.parsed.errors.length > 0 ? ' ⚠' : '';
+            this.roots.push({
+                id: '__search_summary__',
+                type: 'summary',
+                label: `"${this.current.query}" — ${matchCount} matches in ${files.size} files, ${brains.size} brains${limit}${warning}`
+            });
+            this.roots.push(...Array.from(brains.values()));
+        }
+
+        const recent = this.getRecentSearches();
+        if (recent.length > 0) {
+            this.roots.push({
+                id: '__search_recent__',
+                type: 'recentSection',
+                label: 'Recent Searches',
+                children: recent.map(search => ({ id: `recent:${search.query}`, type: 'recent', label: search.query, search }))
+            });
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    private async remember(search: SavedSearch): Promise<void> {
+        const recent = [search, ...this.getRecentSearches().filter(s => s.query !== search.query)].slice(0, MAX_RECENT_SEARCHES);
+        await this.memento.update(RECENT_SEARCHES_KEY, recent);
+    }
+
+    /**
+     * The match line with the lines around it, numbered.
+     */
+    private getContextTooltip(result: SearchResult): vscode.MarkdownString {
+        const before = result.contextBefore || [];
+        const after = result.contextAfter || [];
+        const lines: string[] = [];
+        before.forEach((line, i) => lines.push(`  ${result.lineNumber - before.length + i}  ${line}`));
+        lines.push(`> ${result.lineNumber}  ${result.matchLine}`);
+        after.forEach((line, i) => lines.push(`  ${result.lineNumber + 1 + i}  ${line}`));
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${result.fileName}** · ${result.brainName}\n\n`);
+        tooltip.appendCodeblock(lines.join('\n'), 'text');
+        return tooltip;
+    }
+}
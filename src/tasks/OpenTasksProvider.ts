@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BrainManager } from '../brain/BrainManager';
+import { Brain } from '../brain/types';
+import { CHECKLIST_ICONS } from '../brain/BrainTreeProvider';
+import { ChecklistItem, ChecklistState, findChecklistLine, isTaskList, setChecklistMark } from '../brain/Checklist';
+
+const SETTINGS_KEY = 'antigravity.openTasks';
+
+export type TaskGrouping = 'brain' | 'tag';
+export type TaskSort = 'recent' | 'oldest';
+
+interface OpenTasksSettings {
+    grouping: TaskGrouping;
+    sort: TaskSort;
+    filter?: string;            // Case-insensitive text the task or its brain title must contain
+    inProgressOnly?: boolean;
+}
+
+export interface TaskTreeNode {
+    id: string;
+    type: 'tag' | 'brain' | 'task';
+    label: string;
+    brainPath?: string;
+    filePath?: string;
+    item?: ChecklistItem;       // 'task' nodes
+    parentText?: string;        // 'task' nodes nested under another item
+    children?: TaskTreeNode[];
+}
+
+/**
+ * The "Open Tasks" view: every to-do and in-progress checklist item of every brain's task list,
+ * grouped by brain or tag. Follows artifact changes.
+ */
+export class OpenTasksProvider implements vscode.TreeDataProvider<TaskTreeNode>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TaskTreeNode | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<TaskTreeNode | undefined | void> = this._onDidChangeTreeData.event;
+
+    private settings: OpenTasksSettings;
+    private roots: TaskTreeNode[] = [];
+    private taskCount = 0;
+    private indexSubscription: vscode.Disposable;
+
+    constructor(private brainManager: BrainManager, private memento: vscode.Memento) {
+        this.settings = { grouping: 'brain', sort: 'recent', ...memento.get<OpenTasksSettings>(SETTINGS_KEY) };
+        this.indexSubscription = brainManager.onDidChange(() => this.refresh().catch(e => console.warn('Failed to load open tasks', e)));
+        this.refresh().catch(e => console.warn('Failed to load open tasks', e));
+    }
+
+    dispose(): void {
+        this.indexSubscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public get count(): number {
+        return this.taskCount;
+    }
+
+    public get grouping(): TaskGrouping {
+        return this.settings.grouping;
+    }
+
+    public get sort(): TaskSort {
+        return this.settings.sort;
+    }
+
+    public get filter(): string | undefined {
+        return this.settings.filter;
+    }
+
+    public get inProgressOnly(): boolean {
+        return this.settings.inProgressOnly === true;
+    }
+
+    public async update(settings: Partial<OpenTasksSettings>): Promise<void> {
+        this.settings = { ...this.settings, ...settings };
+        await this.memento.update(SETTINGS_KEY, this.settings);
+        await this.refresh();
+    }
+
+    /**
+     * One-line summary of the view's filter, if any.
+     */
+    public describeFilter(): string | undefined {
+        const parts: string[] = [];
+        if (this.settings.filter) {
+            parts.push(`"${this.settings.filter}"`);
+        }
+        if (this.settings.inProgressOnly) {
+            parts.push('in progress');
+        }
+        return parts.length > 0 ? parts.join(' · ') : undefined;
+    }
+
+    public async refresh(): Promise<void> {
+        const brains = (await this.brainManager.getBrains()).filter(b => b.status !== 'archived');
+        brains.sort((a, b) => this.settings.sort === 'recent'
+            ? (b.updatedAt || 0) - (a.updatedAt || 0)
+            : (a.updatedAt || 0) - (b.updatedAt || 0));
+
+        const brainNodes: TaskTreeNode[] = [];
+        this.taskCount = 0;
+        for (const brain of brains) {
+            const tasks = this.getOpenTasks(brain);
+            if (tasks.length > 0) {
+                brainNodes.push({ id: `brain:${brain.path}`, type: 'brain', label: brain.title, brainPath: brain.path, children: tasks });
+                this.taskCount += tasks.length;
+            }
+        }
+
+        if (this.settings.grouping === 'tag') {
+            // A brain shows up under each of its tags
+            const byTag = new Map<string, TaskTreeNode[]>();
+            for (const brainNode of brainNodes) {
+                const tags = this.brainManager.getBrain(brainNode.brainPath!)?.tags || [];
+                for (const tag of tags.length > 0 ? tags : ['']) {
+                    byTag.set(tag, [...(byTag.get(tag) || []), { ...brainNode, id: `tag:${tag}:${brainNode.brainPath}` }]);
+                }
+            }
+            this.roots = Array.from(byTag.keys())
+                .sort((a, b) => !a ? 1 : !b ? -1 : a.localeCompare(b))
+                .map(tag => ({ id: `tag:${tag}`, type: 'tag', label: tag || 'Untagged', children: byTag.get(tag) }));
+        } else {
+            this.roots = brainNodes;
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: TaskTreeNode): vscode.TreeItem {
+        const childCount = element.children ? element.children.length : 0;
+        switch (element.type) {
+            case 'tag': {
+                const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('tag');
+                item.description = `${childCount} brains`;
+                item.contextValue = 'taskTag';
+                return item;
+            }
+            case 'brain': {
+                const brain = this.brainManager.getBrain(element.brainPath!);
+                const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon(brain?.pinned ? 'pin' : 'project');
+                const updated = brain?.updatedAt ? new Date(brain.updatedAt).toLocaleDateString() : '';
+                item.description = [`${childCount} open`, updated].filter(p => p).join(' • ');
+                item.tooltip = element.brainPath;
+                item.contextValue = 'taskBrain';
+                item.command = { command: 'antigravity-brain.revealBrain', title: 'Reveal Brain', arguments: [element.brainPath] };
+                return item;
+            }
+            case 'task': {
+                const task = element.item!;
+                const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = CHECKLIST_ICONS[task.state];
+                item.description = element.parentText ? `↳ ${element.parentText}` : undefined;
+                item.tooltip = `${task.state === 'inProgress' ? 'In progress' : 'To do'} · ${path.basename(element.filePath!)}:${task.line + 1}`;
+                item.contextValue = task.state === 'inProgress' ? 'taskInProgress' : 'taskTodo';
+                item.command = { command: 'antigravity-brain.openTask', title: 'Open Task', arguments: [element] };
+                return item;
+            }
+        }
+    }
+
+    getChildren(element?: TaskTreeNode): TaskTreeNode[] {
+        return element ? element.children || [] : this.roots;
+    }
+
+    /**
+     * Open items of the brain's task lists that pass the view's filter.
+     */
+    private getOpenTasks(brain: Brain): TaskTreeNode[] {
+        const filter = (this.settings.filter || '').toLowerCase();
+        const brainMatches = !filter || brain.title.toLowerCase().includes(filter);
+        const tasks: TaskTreeNode[] = [];
+        for (const artifact of brain.artifacts.filter(a => isTaskList(a))) {
+            const items = this.brainManager.getSummary(artifact.path)?.checklistItems || [];
+            items.forEach((item, index) => {
+                if (item.state === 'done' || (this.settings.inProgressOnly && item.state !== 'inProgress')) {
+                    return;
+                }
+                if (!brainMatches && !item.text.toLowerCase().includes(filter)) {
+                    return;
+                }
+                // The closest less indented item above, for context
+                let parent: ChecklistItem | undefined;
+                for (let i = index - 1; i >= 0 && !parent; i--) {
+                    if (items[i].indent < item.indent) {
+                        parent = items[i];
+                    }
+                }
+                tasks.push({
+                    id: `task:${artifact.path}#L${item.line + 1}`,
+                    type: 'task',
+                    label: item.text || '(empty)',
+                    brainPath: brain.path,
+                    filePath: artifact.path,
+                    item,
+                    parentText: parent?.text
+                });
+            });
+        }
+        return tasks;
+    }
+}
+
+/**
+ * Sets a checklist item's box in its file. Goes through the editor's document, so unsaved
+ * edits are kept (and the file is only saved if it had none). Throws when the item can no
+ * longer be found, e.g. the file changed in the meantime.
+ */
+export async function setTaskState(filePath: string, item: ChecklistItem, state: ChecklistState): Promise<void> {
+    const uri = vscode.Uri.file(filePath);
+    const document = await vscode.workspace.openTextDocument(uri);
+    const lines = document.getText().split('\n');
+    const lineIndex = findChecklistLine(lines, item);
+    if (lineIndex === -1) {
+        throw new Error(`"${item.text}" is no longer in ${filePath}`);
+    }
+
+    const wasDirty = document.isDirty;
+    const line = document.lineAt(lineIndex);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, line.range, setChecklistMark(line.text, state));
+    if (!await vscode.workspace.applyEdit(edit)) {
+        throw new Error(`Could not edit ${filePath}`);
+    }
+    if (!wasDirty) {
+        await document.save();
+    }
+}
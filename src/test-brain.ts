@@ -11,7 +11,7 @@ async function main() {
     const brainPath = '/home/glenn/.gemini/antigravity/brain/6fdb4904-417e-4ef5-b91b-0341d4725a06'; 
     console.log(`Testing BrainManager on: ${brainPath}`);
 
-    const manager = new BrainManager(brainPath);
+    const manager = new BrainManager([{ id: 'test', label: 'Test', icon: 'library', path: brainPath, adapter: 'antigravity' }]);
     try {
         const graph = await manager.buildGraph();
         console.log('Graph built successfully!');
@@ -85,7 +85,7 @@ export default function App() {
                    id: n.id,
                    type: 'fileNode',
                    position: { x: 0, y: 0 }, // Will be set by dagre
-                   data: { label: n.name, type: 'Markdown' }
+                   data: { label: n.name, type: n.sourceLabel || 'Markdown' }
                }));
                
                let newEdges: Edge[] = links.map((l: any, index: number) => ({
@@ -17,6 +17,9 @@ export class WebviewManager {
         // Listen for when the panel is disposed
         // This happens when the user closes the panel or when the panel is closed programmatically
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        // Push a fresh graph whenever the brain index changes
+        this.brainManager.onDidChange(() => this._postGraph().catch(e => console.warn('Failed to update graph', e)), null, this._disposables);
     }
 
     public static createOrShow(extensionUri: vscode.Uri, brainManager: BrainManager) {
@@ -63,12 +66,30 @@ export class WebviewManager {
         this._panel.webview.html = await this._getHtmlForWebview(webview);
     }
 
+    private async _postGraph() {
+        const data = await this._getGraphData();
+        // The panel may have been closed while the graph was built
+        if (WebviewManager.currentPanel === this) {
+            this._panel.webview.postMessage({ type: 'updateGraph', data });
+        }
+    }
+
+    // Graph plus the source label of every node, when brains come from more than one root
+    private async _getGraphData() {
+        const graph = await this.brainManager.buildGraph();
+        if (this.brainManager.sources.length < 2) {
+            return graph;
+        }
+        const nodes = graph.nodes.map(n => ({ ...n, sourceLabel: this.brainManager.getSource(n.source)?.label }));
+        return { nodes, links: graph.links };
+    }
+
     private async _getHtmlForWebview(webview: vscode.Webview) {
         // Local path to main script run in the webview
         const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview.js'));
 
         // Simulating the graph data injection
-        const graph = await this.brainManager.buildGraph();
+        const graph = await this._getGraphData();
         
         // We will send the data via postMessage after the webview is loaded, 
         // OR we can embed it in a script tag (faster for initial load).